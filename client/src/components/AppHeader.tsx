@@ -3,9 +3,12 @@ import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { useQuery } from "@tanstack/react-query";
 import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { WorkspacesDialog } from "@/components/WorkspacesDialog";
 
 export function AppHeader() {
   const [showActivityLog, setShowActivityLog] = useState(false);
+  const { user, logoutMutation } = useAuth();
 
   const { data: recentRuns = [] } = useQuery({
     queryKey: ["/api/runs"],
@@ -74,14 +77,29 @@ export function AppHeader() {
               </SheetContent>
             </Sheet>
             
+            <WorkspacesDialog />
+            
             <Button variant="ghost" size="sm" data-testid="button-help">
               <i className="fas fa-book"></i>
             </Button>
             
-            <Button size="sm" data-testid="button-sign-in">
-              <i className="fas fa-user mr-2"></i>
-              Sign In
-            </Button>
+            {user && (
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-foreground" data-testid="text-username">
+                  <i className="fas fa-user mr-2 text-muted-foreground"></i>
+                  {user.username}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  data-testid="button-sign-out"
+                >
+                  Sign Out
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,85 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CodeDiffView } from "@/components/CodeDiffView";
+import { isRunFinished, type RunAttempts, type RunStatus } from "@/lib/api";
+
+interface AutoFixAttemptsProps {
+  // Any run of the chain; the server walks back to the first attempt
+  runId: string;
+  onAcceptFix: (code: string) => void;
+  onDismiss: () => void;
+}
+
+const POLL_INTERVAL_MS = 1000;
+
+const statusStyles: Record<RunStatus, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  running: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800",
+};
+
+// The attempts of an auto-fix run, and the repaired code once one of them succeeds
+export function AutoFixAttempts({ runId, onAcceptFix, onDismiss }: AutoFixAttemptsProps) {
+  const { data } = useQuery<RunAttempts>({
+    queryKey: ["/api/runs", runId, "attempts"],
+    refetchInterval: (query) => {
+      const attempts = query.state.data?.attempts;
+      const latest = attempts?.[attempts.length - 1];
+      return latest && isRunFinished(latest.status) && !latest.nextRunId ? false : POLL_INTERVAL_MS;
+    },
+  });
+
+  if (!data || data.attempts.length < 2) {
+    return null;
+  }
+
+  const latest = data.attempts[data.attempts.length - 1];
+  const isFixed = latest.status === "completed";
+
+  return (
+    <div className="mb-4 p-3 border border-border rounded-lg space-y-3" data-testid="auto-fix-attempts">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-foreground">
+          <i className="fas fa-wrench mr-2"></i>
+          Auto-fix attempts
+        </p>
+        <Button variant="ghost" size="sm" className="px-2 py-1 text-xs" onClick={onDismiss} data-testid="button-dismiss-auto-fix">
+          <i className="fas fa-times"></i>
+        </Button>
+      </div>
+
+      <ol className="space-y-2">
+        {data.attempts.map((attempt) => (
+          <li key={attempt.runId} className="text-xs" data-testid={`auto-fix-attempt-${attempt.attempt}`}>
+            <div className="flex items-center space-x-2">
+              <span className="font-medium text-foreground">
+                {attempt.attempt === 1 ? "Original code" : `Fix ${attempt.attempt - 1}`}
+              </span>
+              <Badge className={`text-xs px-2 py-0 ${statusStyles[attempt.status]}`}>{attempt.status}</Badge>
+            </div>
+            {attempt.error && (
+              <p className="mt-1 font-mono text-red-700 break-words">{attempt.error}</p>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <CodeDiffView lines={data.diff} />
+
+      {isFixed && (
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={() => onAcceptFix(latest.code)}
+          data-testid="button-accept-fix"
+        >
+          <i className="fas fa-check mr-2"></i>
+          Accept fix
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { DiffLine } from "@/lib/api";
+
+interface CodeDiffViewProps {
+  lines: DiffLine[];
+}
+
+const lineStyles = {
+  added: "bg-green-900/40 text-green-200",
+  removed: "bg-red-900/40 text-red-200",
+  unchanged: "text-slate-300",
+};
+
+const linePrefixes = {
+  added: "+",
+  removed: "-",
+  unchanged: " ",
+};
+
+export function CodeDiffView({ lines }: CodeDiffViewProps) {
+  if (lines.every(line => line.type === "unchanged")) {
+    return <p className="text-sm text-muted-foreground">No code changes.</p>;
+  }
+
+  return (
+    <div className="bg-slate-900 rounded-lg p-2 font-mono text-xs overflow-x-auto" data-testid="code-diff">
+      {lines.map((line, index) => (
+        <div key={index} className={`flex whitespace-pre ${lineStyles[line.type]}`}>
+          <span className="w-8 shrink-0 text-right pr-2 text-slate-500 select-none">{line.oldLine ?? ""}</span>
+          <span className="w-8 shrink-0 text-right pr-2 text-slate-500 select-none">{line.newLine ?? ""}</span>
+          <span className="w-4 shrink-0 select-none">{linePrefixes[line.type]}</span>
+          <span>{line.text}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { Badge } from "@/components/ui/badge";
+import type { ColumnProfile } from "@/lib/api";
+
+interface ProfiledColumn {
+  name: string;
+  type: string;
+  profile?: ColumnProfile;
+}
+
+interface ColumnProfilePanelProps {
+  columns: ProfiledColumn[];
+  rowCount: number;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round(part / whole * 100)}%` : "0%";
+}
+
+function ColumnProfileCard({ column, rowCount }: { column: ProfiledColumn; rowCount: number }) {
+  const profile = column.profile!;
+  const topCount = profile.topValues[0]?.count || 0;
+  const patterns = Object.entries(profile.patterns).filter(([, count]) => count > 0);
+
+  return (
+    <div
+      className={`p-3 border rounded-lg space-y-2 text-sm ${profile.issues.length > 0 ? "border-yellow-300" : "border-border"}`}
+      data-testid={`column-profile-${column.name}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-foreground truncate" title={column.name}>{column.name}</span>
+        <Badge variant="outline" className="text-xs font-normal shrink-0">{column.type}</Badge>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-3 text-xs text-muted-foreground">
+        <span>Empty: {profile.nullCount.toLocaleString()} ({percent(profile.nullCount, rowCount)})</span>
+        <span>Distinct: {profile.distinctCount.toLocaleString()}</span>
+      </div>
+
+      {profile.numeric && (
+        <div className="text-xs text-muted-foreground space-y-1" data-testid={`column-profile-numeric-${column.name}`}>
+          <div className="grid grid-cols-5 gap-1 text-center">
+            {([
+              ["Min", profile.numeric.min],
+              ["P25", profile.numeric.quantiles.p25],
+              ["Median", profile.numeric.quantiles.p50],
+              ["P75", profile.numeric.quantiles.p75],
+              ["Max", profile.numeric.max],
+            ] as const).map(([label, value]) => (
+              <div key={label} className="bg-muted rounded px-1 py-0.5">
+                <div className="text-[10px] uppercase">{label}</div>
+                <div className="font-mono text-foreground truncate" title={String(value)}>{formatNumber(value)}</div>
+              </div>
+            ))}
+          </div>
+          <div>
+            Mean {formatNumber(profile.numeric.mean)} • Std dev {formatNumber(profile.numeric.stdDev)} •{" "}
+            {profile.numeric.outlierCount.toLocaleString()} outliers
+          </div>
+        </div>
+      )}
+
+      {profile.dateRange && (
+        <div className="text-xs text-muted-foreground">
+          <i className="fas fa-calendar mr-1"></i>
+          {profile.dateRange.min} to {profile.dateRange.max}
+        </div>
+      )}
+
+      {!profile.numeric && !profile.dateRange && profile.topValues.length > 0 && (
+        <div className="space-y-1">
+          {profile.topValues.map(({ value, count }) => (
+            <div key={value} className="flex items-center gap-2 text-xs">
+              <span className="w-24 truncate text-foreground" title={value}>{value}</span>
+              <div className="flex-1 h-1.5 bg-muted rounded">
+                <div className="h-1.5 bg-primary/60 rounded" style={{ width: `${count / topCount * 100}%` }} />
+              </div>
+              <span className="text-muted-foreground tabular-nums">{count.toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {patterns.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {patterns.map(([pattern, count]) => (
+            <Badge key={pattern} variant="outline" className="text-xs font-normal">
+              {pattern}: {count.toLocaleString()}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {profile.issues.length > 0 && (
+        <ul className="text-xs text-yellow-800 space-y-0.5" data-testid={`column-profile-issues-${column.name}`}>
+          {profile.issues.map(issue => (
+            <li key={issue}>
+              <i className="fas fa-exclamation-triangle mr-1"></i>
+              {issue}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Per-column statistics and data-quality findings, computed over every row at upload
+export function ColumnProfilePanel({ columns, rowCount }: ColumnProfilePanelProps) {
+  const profiled = columns.filter(column => column.profile);
+
+  if (profiled.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="column-profile-unavailable">
+        This file was uploaded before column profiling. Upload it again to see its profile.
+      </p>
+    );
+  }
+
+  const withIssues = profiled.filter(column => column.profile!.issues.length > 0).length;
+
+  return (
+    <div className="space-y-3" data-testid="column-profile-panel">
+      <p className="text-sm text-muted-foreground">
+        {withIssues > 0
+          ? `${withIssues} of ${profiled.length} columns have data-quality findings`
+          : `No data-quality findings in ${profiled.length} columns`}
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-[420px] overflow-auto">
+        {profiled.map(column => (
+          <ColumnProfileCard key={column.name} column={column} rowCount={rowCount} />
+        ))}
+      </div>
+    </div>
+  );
+}
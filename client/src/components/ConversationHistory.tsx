@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { Conversation, RunAttempt } from "@/lib/api";
+
+interface ConversationHistoryProps {
+  conversationId: string;
+  onNewConversation: () => void;
+}
+
+function describeRun(run: RunAttempt): { label: string; className: string } {
+  switch (run.status) {
+    case "completed":
+      return {
+        label: `Ran: ${run.summary?.originalRowCount ?? 0} → ${run.summary?.resultRowCount ?? 0} rows`,
+        className: "bg-green-100 text-green-800",
+      };
+    case "failed":
+      return { label: `Failed: ${run.error || "unknown error"}`, className: "bg-red-100 text-red-800" };
+    case "cancelled":
+      return { label: "Cancelled", className: "bg-gray-100 text-gray-800" };
+    default:
+      return { label: "Running...", className: "bg-blue-100 text-blue-800" };
+  }
+}
+
+// Instructions, the code generated for each and how running it went; the next
+// instruction refines the latest code
+export function ConversationHistory({ conversationId, onNewConversation }: ConversationHistoryProps) {
+  const { data: conversation, isLoading } = useQuery<Conversation>({
+    queryKey: ["/api/conversations", conversationId],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Conversation</CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onNewConversation}
+            data-testid="button-new-conversation"
+          >
+            <i className="fas fa-plus mr-2"></i>
+            New
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !conversation ? (
+          <Skeleton className="h-24" />
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto" data-testid="conversation-history">
+            {conversation.messages.map((message) => {
+              if (message.role === "user") {
+                return (
+                  <div key={message.id} className="flex justify-end">
+                    <p
+                      className="max-w-[85%] px-3 py-2 rounded-lg bg-primary text-primary-foreground text-sm"
+                      data-testid={`conversation-message-${message.id}`}
+                    >
+                      {message.content}
+                    </p>
+                  </div>
+                );
+              }
+
+              const runs = conversation.runs.filter(run => run.code === message.generatedCode);
+              return (
+                <div key={message.id} className="max-w-[85%] space-y-1" data-testid={`conversation-message-${message.id}`}>
+                  <div className="px-3 py-2 rounded-lg bg-muted text-sm text-foreground">
+                    {message.content}
+                    {message.confidence && (
+                      <span className="ml-2 text-xs text-muted-foreground">({message.confidence} confidence)</span>
+                    )}
+                  </div>
+                  {runs.map((run) => {
+                    const { label, className } = describeRun(run);
+                    return (
+                      <Badge key={run.runId} className={`text-xs font-normal ${className}`}>
+                        {label}
+                      </Badge>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,13 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SheetGrid } from "@/components/SheetGrid";
+import { ColumnProfilePanel } from "@/components/ColumnProfilePanel";
+import { SheetParseOptionsDialog } from "@/components/SheetParseOptionsDialog";
 
 interface DataPreviewProps {
   uploadId: string;
@@ -18,10 +21,26 @@ const getTypeIcon = (type: string) => {
     case 'currency': return 'fas fa-dollar-sign';
     case 'boolean': return 'fas fa-toggle-on';
     case 'category': return 'fas fa-tag';
+    case 'percentage': return 'fas fa-percent';
+    case 'id': return 'fas fa-key';
+    case 'email': return 'fas fa-at';
+    case 'url': return 'fas fa-link';
     default: return 'fas fa-font';
   }
 };
 
+// Sheets uploaded before type confidence was recorded have none
+const describeInference = (column: any): string | undefined => {
+  if (column.confidence === undefined) return undefined;
+  const format = column.format || {};
+  const details = [format.currency, format.dateFormat, format.numberKind, format.decimalSeparator === ',' ? 'decimal comma' : undefined]
+    .filter(Boolean)
+    .join(', ');
+  return `${Math.round(column.confidence * 100)}% confident${details ? ` • ${details}` : ''}`;
+};
+
+const LOW_CONFIDENCE = 0.8;
+
 const getTypeBadgeColor = (type: string) => {
   switch (type) {
     case 'number': return 'bg-blue-100 text-blue-800';
@@ -29,12 +48,17 @@ const getTypeBadgeColor = (type: string) => {
     case 'currency': return 'bg-orange-100 text-orange-800';
     case 'boolean': return 'bg-purple-100 text-purple-800';
     case 'category': return 'bg-gray-100 text-gray-800';
+    case 'percentage': return 'bg-orange-100 text-orange-800';
+    case 'id': return 'bg-yellow-100 text-yellow-800';
+    case 'email': return 'bg-teal-100 text-teal-800';
+    case 'url': return 'bg-teal-100 text-teal-800';
     default: return 'bg-slate-100 text-slate-800';
   }
 };
 
 export function DataPreview({ uploadId, sheetName }: DataPreviewProps) {
   const [showAllColumns, setShowAllColumns] = useState(false);
+  const [showParseOptions, setShowParseOptions] = useState(false);
   
   const { data: sheetData, isLoading } = useQuery({
     queryKey: ["/api/upload", uploadId, "sheet", sheetName],
@@ -62,34 +86,53 @@ export function DataPreview({ uploadId, sheetName }: DataPreviewProps) {
     return null;
   }
 
-  const { columns, preview, rowCount } = sheetData;
+  const { columns, rowCount } = sheetData;
   const displayColumns = showAllColumns ? columns : columns.slice(0, 6);
-  const displayPreview = preview.slice(0, 4);
 
   return (
     <Card>
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle>Data Preview</CardTitle>
-          <span className="text-sm text-muted-foreground">First 100 rows</span>
+          <span className="text-sm text-muted-foreground">{rowCount.toLocaleString()} rows</span>
         </div>
       </CardHeader>
       <CardContent>
         {/* Data Type Inference */}
         <div className="mb-4 p-3 bg-muted rounded-lg">
-          <div className="flex items-center space-x-2 mb-2">
-            <i className="fas fa-magic text-primary text-sm"></i>
-            <span className="text-sm font-medium text-foreground">Auto-detected columns</span>
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center space-x-2">
+              <i className="fas fa-magic text-primary text-sm"></i>
+              <span className="text-sm font-medium text-foreground">
+                {sheetData.parseOptions ? 'Columns (parsing adjusted)' : 'Auto-detected columns'}
+              </span>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setShowParseOptions(true)}
+              data-testid="button-fix-parsing"
+            >
+              <i className="fas fa-sliders-h mr-1"></i>
+              Fix parsing
+            </Button>
           </div>
           <div className="flex flex-wrap gap-2">
             {displayColumns.map((column: any) => (
               <Badge
                 key={column.name}
                 className={`inline-flex items-center px-2 py-1 rounded text-xs ${getTypeBadgeColor(column.type)}`}
+                title={describeInference(column)}
                 data-testid={`column-badge-${column.name}`}
               >
                 <i className={`${getTypeIcon(column.type)} mr-1`}></i>
                 {column.name} ({column.type})
+                {column.confidence !== undefined && column.confidence < LOW_CONFIDENCE && (
+                  <span className="ml-1 opacity-70" data-testid={`column-confidence-${column.name}`}>
+                    {Math.round(column.confidence * 100)}%?
+                  </span>
+                )}
               </Badge>
             ))}
             {!showAllColumns && columns.length > 6 && (
@@ -100,66 +143,45 @@ export function DataPreview({ uploadId, sheetName }: DataPreviewProps) {
           </div>
         </div>
 
-        {/* Data Table */}
-        <div className="overflow-x-auto border border-border rounded-lg">
-          <Table>
-            <TableHeader>
-              <TableRow className="bg-muted">
-                {displayColumns.map((column: any) => (
-                  <TableHead 
-                    key={column.name}
-                    className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider border-r border-border last:border-r-0"
-                    data-testid={`column-header-${column.name}`}
-                  >
-                    {column.name}
-                  </TableHead>
-                ))}
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {displayPreview.map((row: any, index: number) => (
-                <TableRow key={index} data-testid={`preview-row-${index}`}>
-                  {displayColumns.map((column: any) => (
-                    <TableCell 
-                      key={column.name}
-                      className="px-4 py-3 text-sm text-foreground border-r border-border border-b last:border-r-0"
-                    >
-                      {column.name === 'Status' && row[column.name] ? (
-                        <Badge 
-                          className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
-                            row[column.name] === 'Completed' ? 'bg-green-100 text-green-800' :
-                            row[column.name] === 'Pending' ? 'bg-yellow-100 text-yellow-800' :
-                            'bg-gray-100 text-gray-800'
-                          }`}
-                        >
-                          {row[column.name]}
-                        </Badge>
-                      ) : (
-                        <span data-testid={`cell-${index}-${column.name}`}>
-                          {row[column.name] || ''}
-                        </span>
-                      )}
-                    </TableCell>
-                  ))}
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
+        <Tabs defaultValue="rows">
+          <TabsList className="mb-2">
+            <TabsTrigger value="rows" data-testid="tab-rows">Rows</TabsTrigger>
+            <TabsTrigger value="profile" data-testid="tab-profile">Profile</TabsTrigger>
+          </TabsList>
+          <TabsContent value="rows">
+            {/* Full Sheet */}
+            <SheetGrid
+              key={`${uploadId}/${sheetName}`}
+              uploadId={uploadId}
+              sheetName={sheetName}
+              columns={columns}
+              rowCount={rowCount}
+            />
+          </TabsContent>
+          <TabsContent value="profile">
+            <ColumnProfilePanel columns={columns} rowCount={rowCount} />
+          </TabsContent>
+        </Tabs>
         
-        <div className="mt-3 flex items-center justify-between text-sm text-muted-foreground">
-          <span>Showing {displayPreview.length} of {rowCount.toLocaleString()} rows</span>
-          {columns.length > 6 && (
+        {columns.length > 6 && (
+          <div className="mt-2 text-right">
             <Button 
               variant="link" 
-              className="text-primary hover:underline p-0"
+              className="text-primary hover:underline p-0 text-sm"
               onClick={() => setShowAllColumns(!showAllColumns)}
               data-testid="button-toggle-columns"
             >
-              {showAllColumns ? 'Show fewer columns' : 'View all columns'}
+              {showAllColumns ? 'Show fewer column types' : 'View all column types'}
             </Button>
-          )}
-        </div>
+          </div>
+        )}
+
+        <SheetParseOptionsDialog
+          uploadId={uploadId}
+          sheet={sheetData}
+          open={showParseOptions}
+          onOpenChange={setShowParseOptions}
+        />
       </CardContent>
     </Card>
   );
@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { ResultDiffView } from "@/components/ResultDiffView";
 
 interface ExecutionResultsProps {
   result: any;
@@ -44,9 +45,26 @@ export function ExecutionResults({ result }: ExecutionResultsProps) {
                   </p>
                   <p className="text-sm text-muted-foreground">Rows affected</p>
                 </div>
+                <p className="col-span-2 text-xs text-muted-foreground text-center" data-testid="result-row-totals">
+                  Previewing {result.summary.previewRowCount?.toLocaleString() || 0} of{' '}
+                  {result.summary.resultRowCount?.toLocaleString() || 0} result rows • Input had{' '}
+                  {result.summary.originalRowCount?.toLocaleString() || 0} rows
+                </p>
+                {result.summary.dtypes && Object.keys(result.summary.dtypes).length > 0 && (
+                  <div className="col-span-2 flex flex-wrap gap-1" data-testid="result-dtypes">
+                    {Object.entries(result.summary.dtypes as Record<string, string>).map(([column, dtype]) => (
+                      <Badge key={column} variant="outline" className="text-xs font-normal">
+                        {column}: <span className="font-mono ml-1">{dtype}</span>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
 
+            {/* Before/after diff */}
+            {result.summary?.diff && <ResultDiffView diff={result.summary.diff} />}
+
             {/* Sample Results */}
             {result.summary?.preview && result.summary.preview.length > 0 && (
               <div className="border border-border rounded-lg overflow-hidden mb-4">
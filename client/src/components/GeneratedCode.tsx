@@ -1,20 +1,27 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cancelRun, type CodeFinding, type ExecutionResponse, type PipelineStep } from "@/lib/api";
+import { useRunStatus } from "@/hooks/use-run-status";
+import { RunProgress } from "@/components/RunProgress";
+import { AutoFixAttempts } from "@/components/AutoFixAttempts";
 
 interface GeneratedCodeProps {
   codeResult: any;
   uploadId: string;
   sheetName: string;
   onExecutionComplete: (result: any) => void;
+  onCodeChange: (codeResult: any) => void;
+  onAddToPipeline: (step: PipelineStep) => void;
 }
 
-export function GeneratedCode({ codeResult, uploadId, sheetName, onExecutionComplete }: GeneratedCodeProps) {
+export function GeneratedCode({ codeResult, uploadId, sheetName, onExecutionComplete, onCodeChange, onAddToPipeline }: GeneratedCodeProps) {
   const [parameters, setParameters] = useState<Record<string, any>>(() => {
     const initialParams: Record<string, any> = {};
     codeResult.parameters?.forEach((param: any) => {
@@ -22,10 +29,62 @@ export function GeneratedCode({ codeResult, uploadId, sheetName, onExecutionComp
     });
     return initialParams;
   });
-  const [isExecuting, setIsExecuting] = useState(false);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [autoFix, setAutoFix] = useState(false);
+  // First run of the auto-fix chain whose attempts are shown
+  const [fixChainRunId, setFixChainRunId] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
 
+  const handleRunFinished = useCallback((run: ExecutionResponse) => {
+    // A repaired attempt was queued; keep following the chain
+    if (run.status === 'failed' && run.nextRunId) {
+      setActiveRunId(run.nextRunId);
+      toast({
+        title: `Attempt ${run.attempt} failed`,
+        description: "Retrying with automatically repaired code.",
+      });
+      return;
+    }
+
+    setActiveRunId(null);
+    setIsCancelling(false);
+    onExecutionComplete(run);
+    if (codeResult.conversationId) {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", codeResult.conversationId] });
+    }
+
+    if (run.status === 'completed' && run.attempt > 1) {
+      toast({
+        title: "Code repaired and executed",
+        description: `Attempt ${run.attempt} succeeded. Review the fix below.`,
+      });
+    } else if (run.status === 'completed') {
+      toast({
+        title: "Code executed successfully",
+        description: `Processed ${run.summary?.resultRowCount || 0} rows.`,
+      });
+    } else if (run.status === 'cancelled') {
+      toast({
+        title: "Run cancelled",
+        description: "The transformation was stopped before it finished.",
+      });
+    } else {
+      toast({
+        title: "Execution failed",
+        description: run.error,
+        variant: "destructive",
+      });
+    }
+  }, [onExecutionComplete, toast, codeResult.conversationId]);
+
+  const { run: activeRun } = useRunStatus(activeRunId, handleRunFinished);
+  const isExecuting = isStarting || !!activeRunId;
+  const findings: CodeFinding[] = codeResult.analysis?.findings || [];
+  const isBlocked = codeResult.analysis?.safe === false;
+
   const handleParameterChange = (paramName: string, value: any) => {
     setParameters(prev => ({
       ...prev,
@@ -34,31 +93,22 @@ export function GeneratedCode({ codeResult, uploadId, sheetName, onExecutionComp
   };
 
   const handleRunCode = async () => {
-    setIsExecuting(true);
+    setIsStarting(true);
     try {
       const response = await apiRequest("POST", "/api/run", {
         uploadId,
         sheetName,
         code: codeResult.code,
         parameters,
-        nlInstruction: "Generated code execution" // This should come from the original NL instruction
+        nlInstruction: "Generated code execution", // This should come from the original NL instruction
+        autoFix,
+        conversationId: codeResult.conversationId,
+        inputSheets: codeResult.inputSheets || []
       });
 
-      const result = await response.json();
-      onExecutionComplete(result);
-      
-      if (result.success) {
-        toast({
-          title: "Code executed successfully",
-          description: `Processed ${result.summary?.resultRowCount || 0} rows.`,
-        });
-      } else {
-        toast({
-          title: "Execution failed",
-          description: result.error,
-          variant: "destructive",
-        });
-      }
+      const result: ExecutionResponse = await response.json();
+      setActiveRunId(result.runId);
+      setFixChainRunId(autoFix ? result.runId : null);
     } catch (error) {
       console.error("Execution error:", error);
       toast({
@@ -67,10 +117,37 @@ export function GeneratedCode({ codeResult, uploadId, sheetName, onExecutionComp
         variant: "destructive",
       });
     } finally {
-      setIsExecuting(false);
+      setIsStarting(false);
     }
   };
 
+  const handleCancelRun = async () => {
+    if (!activeRunId) return;
+
+    setIsCancelling(true);
+    try {
+      await cancelRun(activeRunId);
+    } catch (error) {
+      console.error("Cancel error:", error);
+      setIsCancelling(false);
+      toast({
+        title: "Failed to cancel run",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAcceptFix = (code: string) => {
+    // The repaired code passed the safety checks before it was run
+    onCodeChange({ ...codeResult, code, analysis: undefined });
+    setFixChainRunId(null);
+    toast({
+      title: "Fix accepted",
+      description: "The repaired code replaces the generated code.",
+    });
+  };
+
   const handleSavePlaybook = async () => {
     setIsSaving(true);
     try {
@@ -85,7 +162,8 @@ export function GeneratedCode({ codeResult, uploadId, sheetName, onExecutionComp
         nlInstruction: "Generated transformation", // This should come from the original NL instruction
         generatedCode: codeResult.code,
         parameters: codeResult.parameters || [],
-        userId: undefined // Will be set from session when auth is implemented
+        uploadId,
+        sheetName
       });
 
       toast({
@@ -104,6 +182,22 @@ export function GeneratedCode({ codeResult, uploadId, sheetName, onExecutionComp
     }
   };
 
+  const handleAddToPipeline = () => {
+    onAddToPipeline({
+      id: crypto.randomUUID(),
+      name: codeResult.nlInstruction || "Generated code",
+      kind: 'code',
+      enabled: true,
+      nlInstruction: codeResult.nlInstruction,
+      code: codeResult.code,
+      parameters,
+    });
+    toast({
+      title: "Added to pipeline",
+      description: "The code runs as the pipeline's last step.",
+    });
+  };
+
   const copyToClipboard = async () => {
     try {
       await navigator.clipboard.writeText(codeResult.code);
@@ -165,6 +259,33 @@ export function GeneratedCode({ codeResult, uploadId, sheetName, onExecutionComp
           </div>
         )}
 
+        {/* Safety Findings */}
+        {findings.length > 0 && (
+          <div
+            className={`mb-4 p-3 rounded-lg border ${
+              isBlocked ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'
+            }`}
+            data-testid="code-findings"
+          >
+            <p className={`text-sm font-medium mb-2 ${isBlocked ? 'text-red-800' : 'text-yellow-800'}`}>
+              <i className="fas fa-exclamation-triangle mr-2"></i>
+              {isBlocked ? "This code cannot be run:" : "Review before running:"}
+            </p>
+            <ul className="space-y-1">
+              {findings.map((finding, index) => (
+                <li
+                  key={index}
+                  className={`text-xs ${finding.severity === 'blocking' ? 'text-red-700' : 'text-yellow-700'}`}
+                  data-testid={`code-finding-${finding.rule}`}
+                >
+                  {finding.line && <span className="font-mono mr-2">L{finding.line}</span>}
+                  {finding.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Parameters */}
         {codeResult.parameters && codeResult.parameters.length > 0 && (
           <div className="mb-4 p-3 bg-muted rounded-lg">
@@ -189,17 +310,47 @@ export function GeneratedCode({ codeResult, uploadId, sheetName, onExecutionComp
           </div>
         )}
 
+        {/* Auto-fix Attempts */}
+        {fixChainRunId && (
+          <AutoFixAttempts
+            runId={fixChainRunId}
+            onAcceptFix={handleAcceptFix}
+            onDismiss={() => setFixChainRunId(null)}
+          />
+        )}
+
+        {/* Live Run Progress */}
+        {activeRunId && (
+          <div className="mb-4">
+            <RunProgress run={activeRun} onCancel={handleCancelRun} isCancelling={isCancelling} />
+          </div>
+        )}
+
+        {/* Auto-fix Toggle */}
+        <div className="flex items-center justify-between mb-4">
+          <Label htmlFor="auto-fix" className="text-sm text-foreground">
+            Auto-fix on failure
+          </Label>
+          <Switch
+            id="auto-fix"
+            checked={autoFix}
+            onCheckedChange={setAutoFix}
+            disabled={isExecuting}
+            data-testid="switch-auto-fix"
+          />
+        </div>
+
         {/* Action Buttons */}
         <div className="flex space-x-2">
           <Button 
             className="flex-1 bg-primary text-primary-foreground py-2 px-4 rounded-md font-medium hover:bg-primary/90 transition-colors"
             onClick={handleRunCode}
-            disabled={isExecuting}
+            disabled={isExecuting || isBlocked}
             data-testid="button-run-code"
           >
             {isExecuting ? (
               <>
-                <i className="fas fa-spinner fa-spin mr-2"></i>
+                <i className="fas fa-hourglass-half mr-2"></i>
                 Running...
               </>
             ) : (
@@ -221,6 +372,15 @@ export function GeneratedCode({ codeResult, uploadId, sheetName, onExecutionComp
               <i className="fas fa-save"></i>
             )}
           </Button>
+          <Button 
+            variant="outline"
+            onClick={handleAddToPipeline}
+            disabled={isBlocked}
+            title="Add to pipeline"
+            data-testid="button-add-to-pipeline"
+          >
+            <i className="fas fa-stream"></i>
+          </Button>
         </div>
       </CardContent>
     </Card>
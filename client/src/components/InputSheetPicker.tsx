@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { InputSheet, UploadSummary } from "@/lib/api";
+
+interface InputSheetPickerProps {
+  uploadId: string;
+  sheetName: string;
+  inputSheets: InputSheet[];
+  onChange: (inputSheets: InputSheet[]) => void;
+}
+
+// Input names are dict keys in Python code, so they are kept identifier-like
+function defaultInputName(sheetName: string, taken: string[]): string {
+  const base = sheetName.toLowerCase().replace(/[^a-z0-9_]+/g, "_").replace(/^_+|_+$/g, "") || "sheet";
+  const name = /^[0-9]/.test(base) ? `_${base}` : base;
+
+  let candidate = name;
+  for (let suffix = 2; taken.includes(candidate); suffix++) {
+    candidate = `${name}_${suffix}`;
+  }
+  return candidate;
+}
+
+// Extra sheets, from any of the user's uploads, that transform_data receives as
+// inputs[name] for joins, lookups and appends
+export function InputSheetPicker({ uploadId, sheetName, inputSheets, onChange }: InputSheetPickerProps) {
+  const [selection, setSelection] = useState("");
+
+  const { data: uploads = [] } = useQuery<UploadSummary[]>({
+    queryKey: ["/api/uploads"],
+  });
+
+  const options = uploads.flatMap(upload =>
+    upload.sheets
+      .filter(sheet => !(upload.uploadId === uploadId && sheet.name === sheetName))
+      .map(sheet => ({
+        value: `${upload.uploadId}/${sheet.name}`,
+        label: `${upload.filename} › ${sheet.name}`,
+        uploadId: upload.uploadId,
+        sheetName: sheet.name,
+      }))
+  );
+
+  const describe = (input: InputSheet) =>
+    options.find(option => option.uploadId === input.uploadId && option.sheetName === input.sheetName)?.label
+      ?? input.sheetName;
+
+  const handleAdd = () => {
+    const option = options.find(o => o.value === selection);
+    if (!option) return;
+
+    const name = defaultInputName(option.sheetName, inputSheets.map(input => input.name));
+    onChange([...inputSheets, { name, uploadId: option.uploadId, sheetName: option.sheetName }]);
+    setSelection("");
+  };
+
+  const handleRename = (index: number, name: string) => {
+    onChange(inputSheets.map((input, i) => i === index ? { ...input, name } : input));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(inputSheets.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Extra Input Sheets</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {inputSheets.length > 0 && (
+          <ul className="space-y-2" data-testid="input-sheets">
+            {inputSheets.map((input, index) => (
+              <li key={`${input.uploadId}/${input.sheetName}/${index}`} className="flex items-center space-x-2">
+                <span className="text-xs font-mono text-muted-foreground">inputs[</span>
+                <Input
+                  value={input.name}
+                  onChange={(e) => handleRename(index, e.target.value)}
+                  className="h-8 w-28 text-xs font-mono"
+                  data-testid={`input-sheet-name-${index}`}
+                />
+                <span className="text-xs font-mono text-muted-foreground">]</span>
+                <span className="flex-1 text-xs text-foreground truncate" title={describe(input)}>
+                  {describe(input)}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="px-2 py-1 text-xs"
+                  onClick={() => handleRemove(index)}
+                  data-testid={`button-remove-input-sheet-${index}`}
+                >
+                  <i className="fas fa-times"></i>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {options.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Upload more files or use a workbook with several sheets to join or append them.</p>
+        ) : (
+          <div className="flex space-x-2">
+            <Select value={selection} onValueChange={setSelection}>
+              <SelectTrigger className="flex-1 text-sm" data-testid="select-input-sheet">
+                <SelectValue placeholder="Add a sheet to join or append" />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleAdd} disabled={!selection} data-testid="button-add-input-sheet">
+              <i className="fas fa-plus"></i>
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
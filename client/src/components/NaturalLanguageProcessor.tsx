@@ -4,11 +4,16 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { InputSheet } from "@/lib/api";
 
 interface NaturalLanguageProcessorProps {
   uploadId: string;
   sheetName: string;
+  // Set once a first instruction has been sent; later instructions refine its code
+  conversationId: string | null;
+  // Extra sheets the generated code can read as inputs[name]
+  inputSheets: InputSheet[];
   onCodeGenerated: (result: any) => void;
 }
 
@@ -19,7 +24,7 @@ const quickCommands = [
   { label: "Fill missing", command: "fill empty Email cells with \"unknown@example.com\"" },
 ];
 
-export function NaturalLanguageProcessor({ uploadId, sheetName, onCodeGenerated }: NaturalLanguageProcessorProps) {
+export function NaturalLanguageProcessor({ uploadId, sheetName, conversationId, inputSheets, onCodeGenerated }: NaturalLanguageProcessorProps) {
   const [nlInstruction, setNlInstruction] = useState("remove rows where Status equals Closed and Date before 2023-01-01");
   const [isGenerating, setIsGenerating] = useState(false);
   const { toast } = useToast();
@@ -40,10 +45,15 @@ export function NaturalLanguageProcessor({ uploadId, sheetName, onCodeGenerated
         uploadId,
         sheetName,
         nlInstruction: nlInstruction.trim(),
+        conversationId: conversationId ?? undefined,
+        inputSheets,
       });
 
       const result = await response.json();
-      onCodeGenerated(result);
+      // The code is run against the same extra inputs it was generated for
+      onCodeGenerated({ ...result, nlInstruction: nlInstruction.trim(), inputSheets });
+      setNlInstruction("");
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", result.conversationId] });
 
       toast({
         title: "Code generated successfully",
@@ -74,7 +84,7 @@ export function NaturalLanguageProcessor({ uploadId, sheetName, onCodeGenerated
         <div className="space-y-4">
           <div>
             <Label htmlFor="nl-instruction" className="block text-sm font-medium text-foreground mb-2">
-              Describe what you want to do:
+              {conversationId ? "Refine the transformation:" : "Describe what you want to do:"}
             </Label>
             <Textarea
               id="nl-instruction"
@@ -82,7 +92,7 @@ export function NaturalLanguageProcessor({ uploadId, sheetName, onCodeGenerated
               onChange={(e) => setNlInstruction(e.target.value)}
               className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent resize-none"
               rows={3}
-              placeholder="e.g., Remove all data from Category column"
+              placeholder={conversationId ? "e.g., Also drop the Notes column" : "e.g., Remove all data from Category column"}
               disabled={isGenerating}
               data-testid="textarea-nl-instruction"
             />
@@ -122,7 +132,7 @@ export function NaturalLanguageProcessor({ uploadId, sheetName, onCodeGenerated
             ) : (
               <>
                 <i className="fas fa-magic mr-2"></i>
-                Generate Code
+                {conversationId ? "Refine Code" : "Generate Code"}
               </>
             )}
           </Button>
@@ -0,0 +1,368 @@
+import { useCallback, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  cancelRun,
+  runPipeline,
+  savePipeline,
+  type ExecutionResponse,
+  type InputSheet,
+  type Pipeline,
+  type PipelineStep,
+  type PipelineStepResult,
+} from "@/lib/api";
+import { useRunStatus } from "@/hooks/use-run-status";
+import { RunProgress } from "@/components/RunProgress";
+
+interface PipelineBuilderProps {
+  uploadId: string;
+  sheetName: string;
+  steps: PipelineStep[];
+  inputSheets: InputSheet[];
+  onStepsChange: (steps: PipelineStep[]) => void;
+  onPipelineRun: (result: ExecutionResponse) => void;
+}
+
+const stepStatusStyles: Record<PipelineStepResult["status"], string> = {
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  skipped: "bg-gray-100 text-gray-800",
+  not_run: "bg-gray-100 text-gray-800",
+};
+
+function StepPreview({ rows }: { rows: Array<Record<string, any>> }) {
+  if (rows.length === 0) {
+    return <p className="text-xs text-muted-foreground">No rows</p>;
+  }
+
+  const columns = Object.keys(rows[0]);
+  return (
+    <div className="overflow-x-auto border border-border rounded">
+      <table className="min-w-full text-xs">
+        <thead className="bg-muted">
+          <tr>
+            {columns.map(column => (
+              <th key={column} className="px-2 py-1 text-left font-medium text-foreground whitespace-nowrap">{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className="border-t border-border">
+              {columns.map(column => (
+                <td key={column} className="px-2 py-1 text-muted-foreground whitespace-nowrap">{String(row[column] ?? "")}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Chains generated code and saved playbooks; each enabled step transforms the
+// previous step's output
+export function PipelineBuilder({ uploadId, sheetName, steps, inputSheets, onStepsChange, onPipelineRun }: PipelineBuilderProps) {
+  const { toast } = useToast();
+  const [savedPipeline, setSavedPipeline] = useState<Pipeline | null>(null);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [stepResults, setStepResults] = useState<PipelineStepResult[]>([]);
+  const [previewStepId, setPreviewStepId] = useState<string | null>(null);
+
+  const { data: playbooks = [] } = useQuery({
+    queryKey: ["/api/playbooks"],
+  }) as { data: any[] };
+
+  const { data: pipelines = [] } = useQuery<Pipeline[]>({
+    queryKey: ["/api/pipelines"],
+  });
+
+  const handleRunFinished = useCallback((run: ExecutionResponse) => {
+    setActiveRunId(null);
+    setIsCancelling(false);
+    setStepResults(run.stepResults || []);
+    onPipelineRun(run);
+
+    if (run.status === 'completed') {
+      toast({
+        title: "Pipeline executed successfully",
+        description: `Processed ${run.summary?.resultRowCount || 0} rows.`,
+      });
+    } else if (run.status === 'cancelled') {
+      toast({
+        title: "Pipeline run cancelled",
+        description: "The pipeline was stopped before it finished.",
+      });
+    } else {
+      toast({
+        title: "Pipeline failed",
+        description: run.error,
+        variant: "destructive",
+      });
+    }
+  }, [onPipelineRun, toast]);
+
+  const { run: activeRun } = useRunStatus(activeRunId, handleRunFinished);
+  const isExecuting = isStarting || !!activeRunId;
+
+  const updateStep = (id: string, changes: Partial<PipelineStep>) => {
+    onStepsChange(steps.map(step => step.id === id ? { ...step, ...changes } : step));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onStepsChange(reordered);
+  };
+
+  const removeStep = (id: string) => {
+    onStepsChange(steps.filter(step => step.id !== id));
+  };
+
+  const handleAddPlaybook = (playbookId: string) => {
+    const playbook = playbooks.find((p: any) => p.id === playbookId);
+    if (!playbook) return;
+
+    // Playbook parameters fall back to their defaults
+    onStepsChange([...steps, {
+      id: crypto.randomUUID(),
+      name: playbook.name,
+      kind: 'playbook',
+      enabled: true,
+      playbookId: playbook.id,
+      nlInstruction: playbook.nlInstruction,
+      parameters: {},
+    }]);
+  };
+
+  const handleLoadPipeline = (pipelineId: string) => {
+    const pipeline = pipelines.find(p => p.id === pipelineId);
+    if (!pipeline) return;
+
+    setSavedPipeline(pipeline);
+    setStepResults([]);
+    onStepsChange(pipeline.steps);
+  };
+
+  const handleSavePipeline = async () => {
+    const name = prompt("Enter a name for this pipeline:", savedPipeline?.name || "");
+    if (!name) return;
+
+    setIsSaving(true);
+    try {
+      // Saving under the loaded pipeline's name updates it; any other name saves a new one
+      const pipelineId = savedPipeline?.name === name ? savedPipeline.id : undefined;
+      const pipeline = await savePipeline({ name, steps }, pipelineId);
+      setSavedPipeline(pipeline);
+      queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] });
+      toast({
+        title: "Pipeline saved",
+        description: `"${name}" has been saved successfully.`,
+      });
+    } catch (error) {
+      console.error("Save pipeline error:", error);
+      toast({
+        title: "Failed to save pipeline",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRunPipeline = async () => {
+    setIsStarting(true);
+    try {
+      const result = await runPipeline(uploadId, sheetName, steps, savedPipeline?.id, inputSheets);
+      setStepResults([]);
+      setActiveRunId(result.runId);
+    } catch (error) {
+      console.error("Pipeline run error:", error);
+      toast({
+        title: "Pipeline failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleCancelRun = async () => {
+    if (!activeRunId) return;
+
+    setIsCancelling(true);
+    try {
+      await cancelRun(activeRunId);
+    } catch (error) {
+      console.error("Cancel error:", error);
+      setIsCancelling(false);
+      toast({
+        title: "Failed to cancel run",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Pipeline{savedPipeline && `: ${savedPipeline.name}`}</CardTitle>
+          {pipelines.length > 0 && (
+            <Select value="" onValueChange={handleLoadPipeline}>
+              <SelectTrigger className="w-44 h-8 text-xs" data-testid="select-load-pipeline">
+                <SelectValue placeholder="Load pipeline" />
+              </SelectTrigger>
+              <SelectContent>
+                {pipelines.map(pipeline => (
+                  <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {steps.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <i className="fas fa-stream text-2xl mb-2"></i>
+            <p className="text-sm">Add generated code or a saved playbook as the first step</p>
+          </div>
+        ) : (
+          <ol className="space-y-2" data-testid="pipeline-steps">
+            {steps.map((step, index) => {
+              const result = stepResults.find(r => r.stepId === step.id);
+              return (
+                <li
+                  key={step.id}
+                  className={`border border-border rounded-lg p-3 ${step.enabled ? "" : "opacity-60"}`}
+                  data-testid={`pipeline-step-${step.id}`}
+                >
+                  <div className="flex items-center justify-between space-x-2">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <span className="text-xs text-muted-foreground">{index + 1}.</span>
+                      <i className={`fas ${step.kind === 'playbook' ? "fa-bookmark" : "fa-code"} text-xs text-muted-foreground`}></i>
+                      <span className="text-sm font-medium text-foreground truncate">{step.name}</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Switch
+                        checked={step.enabled}
+                        onCheckedChange={(enabled) => updateStep(step.id, { enabled })}
+                        disabled={isExecuting}
+                        data-testid={`switch-step-enabled-${step.id}`}
+                      />
+                      <Button variant="ghost" size="sm" className="px-2 py-1 text-xs" onClick={() => moveStep(index, -1)} disabled={isExecuting || index === 0}>
+                        <i className="fas fa-arrow-up"></i>
+                      </Button>
+                      <Button variant="ghost" size="sm" className="px-2 py-1 text-xs" onClick={() => moveStep(index, 1)} disabled={isExecuting || index === steps.length - 1}>
+                        <i className="fas fa-arrow-down"></i>
+                      </Button>
+                      <Button variant="ghost" size="sm" className="px-2 py-1 text-xs" onClick={() => removeStep(step.id)} disabled={isExecuting} data-testid={`button-remove-step-${step.id}`}>
+                        <i className="fas fa-times"></i>
+                      </Button>
+                    </div>
+                  </div>
+
+                  {result && (
+                    <div className="mt-2 space-y-2">
+                      <div className="flex items-center flex-wrap gap-2 text-xs text-muted-foreground">
+                        <Badge className={`text-xs px-2 py-0 ${stepStatusStyles[result.status]}`}>
+                          {result.status === 'not_run' ? "not run" : result.status}
+                        </Badge>
+                        {result.inputRowCount !== undefined && result.outputRowCount !== undefined && (
+                          <span data-testid={`step-row-counts-${step.id}`}>
+                            {result.inputRowCount} → {result.outputRowCount} rows
+                          </span>
+                        )}
+                        {result.executionTimeMs !== undefined && <span>{result.executionTimeMs} ms</span>}
+                        {result.preview && (
+                          <Button
+                            variant="link"
+                            className="p-0 h-auto text-xs"
+                            onClick={() => setPreviewStepId(previewStepId === step.id ? null : step.id)}
+                            data-testid={`button-step-preview-${step.id}`}
+                          >
+                            {previewStepId === step.id ? "Hide preview" : "Preview"}
+                          </Button>
+                        )}
+                      </div>
+                      {result.error && (
+                        <p className="text-xs font-mono text-red-700 break-words">{result.error}</p>
+                      )}
+                      {result.preview && previewStepId === step.id && <StepPreview rows={result.preview} />}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {playbooks.length > 0 && (
+          <Select value="" onValueChange={handleAddPlaybook} disabled={isExecuting}>
+            <SelectTrigger className="text-sm" data-testid="select-add-playbook-step">
+              <SelectValue placeholder="Add a playbook step" />
+            </SelectTrigger>
+            <SelectContent>
+              {playbooks.map((playbook: any) => (
+                <SelectItem key={playbook.id} value={playbook.id}>{playbook.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {activeRunId && (
+          <RunProgress run={activeRun} onCancel={handleCancelRun} isCancelling={isCancelling} />
+        )}
+
+        <div className="flex space-x-2">
+          <Button
+            className="flex-1"
+            onClick={handleRunPipeline}
+            disabled={isExecuting || !uploadId || !sheetName || !steps.some(step => step.enabled)}
+            data-testid="button-run-pipeline"
+          >
+            {isExecuting ? (
+              <>
+                <i className="fas fa-hourglass-half mr-2"></i>
+                Running...
+              </>
+            ) : (
+              <>
+                <i className="fas fa-play mr-2"></i>
+                Run Pipeline
+              </>
+            )}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleSavePipeline}
+            disabled={isSaving || steps.length === 0}
+            data-testid="button-save-pipeline"
+          >
+            {isSaving ? (
+              <i className="fas fa-spinner fa-spin"></i>
+            ) : (
+              <i className="fas fa-save"></i>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CodeDiffView } from "@/components/CodeDiffView";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { getPlaybookDiff, rollbackPlaybook, type PlaybookVersion } from "@/lib/api";
+import { canAccessPlaybook } from "@shared/permissions";
+
+interface PlaybookHistoryDialogProps {
+  playbook: any;
+}
+
+export function PlaybookHistoryDialog({ playbook }: PlaybookHistoryDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const { toast } = useToast();
+  const canEdit = canAccessPlaybook(playbook.accessRole, 'edit');
+
+  const { data: versions = [], isLoading } = useQuery<PlaybookVersion[]>({
+    queryKey: ["/api/playbooks", playbook.id, "versions"],
+    enabled: open,
+  });
+
+  // Compare the selected version against the current one
+  const compareFrom = selectedVersion ?? versions[1]?.version;
+  const compareTo = playbook.currentVersion;
+
+  const { data: diff } = useQuery({
+    queryKey: ["/api/playbooks", playbook.id, "diff", compareFrom, compareTo],
+    queryFn: () => getPlaybookDiff(playbook.id, compareFrom!, compareTo),
+    enabled: open && compareFrom !== undefined && compareFrom !== compareTo,
+  });
+
+  const rollback = useMutation({
+    mutationFn: (version: number) => rollbackPlaybook(playbook.id, version),
+    onSuccess: (_result, version) => {
+      setSelectedVersion(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/playbooks"] });
+      toast({
+        title: "Playbook rolled back",
+        description: `"${playbook.name}" now uses the code from version ${version}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Rollback failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="px-2 py-1 text-xs"
+          data-testid={`button-playbook-history-${playbook.id}`}
+        >
+          <i className="fas fa-history"></i>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{playbook.name} — version history</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {isLoading ? (
+              <Skeleton className="h-32" />
+            ) : versions.map((version) => (
+              <button
+                key={version.id}
+                className={`w-full text-left border rounded-lg px-3 py-2 ${
+                  version.version === compareFrom ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+                }`}
+                onClick={() => setSelectedVersion(version.version)}
+                data-testid={`playbook-version-${version.version}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-foreground">v{version.version}</span>
+                  {version.version === playbook.currentVersion && (
+                    <Badge className="text-xs bg-green-100 text-green-800">Current</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                </p>
+                {version.changeNote && (
+                  <p className="text-xs text-muted-foreground truncate">{version.changeNote}</p>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="col-span-2 space-y-3">
+            {compareFrom === undefined || compareFrom === compareTo ? (
+              <p className="text-sm text-muted-foreground">Select an earlier version to compare it with the current one.</p>
+            ) : diff ? (
+              <>
+                <p className="text-sm text-foreground">
+                  Changes from v{diff.from} to v{diff.to}
+                </p>
+                {diff.nlInstruction && (
+                  <div className="text-xs space-y-1">
+                    <p className="text-red-700 line-through">{diff.nlInstruction.before}</p>
+                    <p className="text-green-700">{diff.nlInstruction.after}</p>
+                  </div>
+                )}
+                <div className="max-h-72 overflow-y-auto">
+                  <CodeDiffView lines={diff.code} />
+                </div>
+                {diff.parameters.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {diff.parameters.map((change) => (
+                      <Badge key={change.name} variant="outline" className="text-xs">
+                        {change.before ? (change.after ? 'changed' : 'removed') : 'added'}: {change.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {canEdit && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => rollback.mutate(diff.from)}
+                    disabled={rollback.isPending}
+                    data-testid="button-rollback"
+                  >
+                    <i className="fas fa-undo mr-2"></i>
+                    Roll back to v{diff.from}
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Skeleton className="h-48" />
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
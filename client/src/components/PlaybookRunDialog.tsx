@@ -0,0 +1,363 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO, isValid } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import {
+  getColumnMapping, runPlaybook, ParameterValidationError, type ColumnMappingSuggestion, type UploadResponse
+} from "@/lib/api";
+import type { Playbook, PlaybookParameter } from "@shared/schema";
+
+type RunnablePlaybook = Pick<Playbook, 'id' | 'name' | 'parameters' | 'inputColumns'>;
+type ParameterValue = string | number | boolean | null;
+type SheetColumn = Pick<UploadResponse['sheets'][number]['columns'][number], 'name' | 'type'>;
+
+interface PlaybookRunDialogProps {
+  playbook: RunnablePlaybook;
+  uploadId: string;
+  sheetName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRunStarted: (runId: string) => void;
+}
+
+const storageKey = (playbookId: string) => `playbook-run-params:${playbookId}`;
+
+function loadLastValues(playbookId: string): Record<string, ParameterValue> {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(playbookId)) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function initialValues(playbook: RunnablePlaybook): Record<string, ParameterValue> {
+  const lastValues = loadLastValues(playbook.id);
+  const values: Record<string, ParameterValue> = {};
+  playbook.parameters?.forEach(param => {
+    values[param.name] = param.name in lastValues ? lastValues[param.name] : param.defaultValue;
+  });
+  return values;
+}
+
+interface ParameterInputProps {
+  param: PlaybookParameter;
+  value: ParameterValue;
+  columns: SheetColumn[];
+  onChange: (value: ParameterValue) => void;
+}
+
+function ParameterInput({ param, value, columns, onChange }: ParameterInputProps) {
+  const id = `run-param-${param.name}`;
+
+  if (param.type === 'boolean') {
+    return (
+      <Switch
+        id={id}
+        checked={value === true || value === 'true'}
+        onCheckedChange={onChange}
+        data-testid={`switch-run-param-${param.name}`}
+      />
+    );
+  }
+
+  if (param.type === 'column' || param.allowedValues?.length) {
+    const options: string[] = param.type === 'column'
+      ? columns.map(column => column.name)
+      : (param.allowedValues ?? []).map(option => String(option));
+
+    return (
+      <Select value={value != null ? String(value) : undefined} onValueChange={onChange}>
+        <SelectTrigger id={id} className="w-48 h-8 text-xs" data-testid={`select-run-param-${param.name}`}>
+          <SelectValue placeholder={param.type === 'column' ? "Pick a column" : "Pick a value"} />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (param.type === 'date') {
+    const selected = typeof value === 'string' && isValid(parseISO(value)) ? parseISO(value) : undefined;
+
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            variant="outline"
+            size="sm"
+            className="w-48 justify-start text-xs font-normal"
+            data-testid={`button-run-param-${param.name}`}
+          >
+            <i className="fas fa-calendar mr-2"></i>
+            {selected ? format(selected, "PPP") : "Pick a date"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="single"
+            selected={selected}
+            defaultMonth={selected}
+            onSelect={(date) => onChange(date ? format(date, "yyyy-MM-dd") : null)}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+    );
+  }
+
+  return (
+    <Input
+      id={id}
+      type={param.type === 'number' ? 'number' : 'text'}
+      value={value == null ? '' : String(value)}
+      onChange={(e) => onChange(param.type === 'number' && e.target.value !== '' ? Number(e.target.value) : e.target.value)}
+      className="w-48 h-8 text-xs"
+      data-testid={`input-run-param-${param.name}`}
+    />
+  );
+}
+
+const UNMAPPED = "__unmapped__";
+
+interface ColumnMappingStepProps {
+  inputColumns: Array<{ name: string; type: string; required: boolean }>;
+  suggestions: ColumnMappingSuggestion[];
+  sheetColumns: SheetColumn[];
+  mapping: Record<string, string | null>;
+  errors: Record<string, string>;
+  onChange: (inputColumn: string, sheetColumn: string | null) => void;
+}
+
+function ColumnMappingStep({ inputColumns, suggestions, sheetColumns, mapping, errors, onChange }: ColumnMappingStepProps) {
+  return (
+    <div className="space-y-3" data-testid="column-mapping-step">
+      <div>
+        <h4 className="text-sm font-medium text-foreground">Map columns</h4>
+        <p className="text-xs text-muted-foreground">
+          This sheet's headers differ from the ones the playbook was saved with.
+        </p>
+      </div>
+      {inputColumns.map((input) => {
+        const suggestion = suggestions.find(s => s.inputColumn === input.name);
+        const selected = mapping[input.name];
+
+        return (
+          <div key={input.name} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-foreground">
+                {input.name}
+                {input.required && <span className="text-red-600 ml-1">*</span>}
+                <span className="text-xs text-muted-foreground ml-2">{input.type}</span>
+              </span>
+              <div className="flex items-center gap-2">
+                {selected && selected === suggestion?.sheetColumn && selected !== input.name && (
+                  <Badge variant="outline" className="text-xs">Suggested</Badge>
+                )}
+                <Select
+                  value={selected ?? UNMAPPED}
+                  onValueChange={(value) => onChange(input.name, value === UNMAPPED ? null : value)}
+                >
+                  <SelectTrigger className="w-48 h-8 text-xs" data-testid={`select-column-mapping-${input.name}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {sheetColumns.map(column => (
+                      <SelectItem key={column.name} value={column.name}>{column.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {errors[input.name] && (
+              <p className="text-xs text-red-600" data-testid={`error-column-mapping-${input.name}`}>
+                {errors[input.name]}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function PlaybookRunDialog({
+  playbook,
+  uploadId,
+  sheetName,
+  open,
+  onOpenChange,
+  onRunStarted,
+}: PlaybookRunDialogProps) {
+  const [values, setValues] = useState<Record<string, ParameterValue>>(() => initialValues(playbook));
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [columnMapping, setColumnMapping] = useState<Record<string, string | null>>({});
+  const [columnErrors, setColumnErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const { data: sheetData } = useQuery<UploadResponse['sheets'][number]>({
+    queryKey: ["/api/upload", uploadId, "sheet", sheetName],
+    enabled: open && !!uploadId && !!sheetName,
+  });
+
+  const { data: mappingData } = useQuery({
+    queryKey: ["/api/playbooks", playbook.id, "column-mapping", uploadId, sheetName],
+    queryFn: () => getColumnMapping(playbook.id, uploadId, sheetName),
+    enabled: open && playbook.inputColumns?.length > 0,
+  });
+
+  // Keyed on the id, so a refetch that replaces the playbook object does not
+  // wipe what the user has typed
+  useEffect(() => {
+    if (open) {
+      setValues(initialValues(playbook));
+      setFieldErrors({});
+      setColumnErrors({});
+    }
+  }, [open, playbook.id]);
+
+  useEffect(() => {
+    if (mappingData) {
+      setColumnMapping(Object.fromEntries(
+        mappingData.suggestions.map(suggestion => [suggestion.inputColumn, suggestion.sheetColumn])
+      ));
+    }
+  }, [mappingData]);
+
+  const sheetColumns: SheetColumn[] = sheetData?.columns || [];
+  const needsMapping = !!mappingData?.suggestions.some(s => s.sheetColumn !== s.inputColumn);
+
+  // Column parameters refer to columns by the names the code sees after renaming
+  const renames = Object.fromEntries(
+    Object.entries(columnMapping)
+      .filter(([, sheetColumn]) => sheetColumn)
+      .map(([inputColumn, sheetColumn]) => [sheetColumn, inputColumn])
+  );
+  const codeColumns = sheetColumns.map(column => ({ ...column, name: renames[column.name] ?? column.name }));
+
+  const handleMappingChange = (inputColumn: string, sheetColumn: string | null) => {
+    setColumnMapping(prev => ({ ...prev, [inputColumn]: sheetColumn }));
+    setColumnErrors(prev => {
+      const { [inputColumn]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleChange = (name: string, value: ParameterValue) => {
+    setValues(prev => ({ ...prev, [name]: value }));
+    setFieldErrors(prev => {
+      const { [name]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await runPlaybook(playbook.id, uploadId, sheetName, values, columnMapping);
+      localStorage.setItem(storageKey(playbook.id), JSON.stringify(values));
+      onRunStarted(result.runId);
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof ParameterValidationError) {
+        setFieldErrors(Object.fromEntries(error.errors.map(e => [e.field, e.message])));
+        setColumnErrors(Object.fromEntries(error.columnErrors.map(e => [e.field, e.message])));
+        return;
+      }
+      toast({
+        title: "Execution failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const parameters: PlaybookParameter[] = playbook.parameters || [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Run "{playbook.name}"</DialogTitle>
+        </DialogHeader>
+
+        {(needsMapping || Object.keys(columnErrors).length > 0) && mappingData && (
+          <ColumnMappingStep
+            inputColumns={mappingData.inputColumns}
+            suggestions={mappingData.suggestions}
+            sheetColumns={sheetColumns}
+            mapping={columnMapping}
+            errors={columnErrors}
+            onChange={handleMappingChange}
+          />
+        )}
+
+        {parameters.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This playbook has no parameters.</p>
+        ) : (
+          <div className="space-y-4">
+            {parameters.map((param) => (
+              <div key={param.name} className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`run-param-${param.name}`} className="text-sm text-foreground">
+                    {param.name}
+                    {param.required && <span className="text-red-600 ml-1">*</span>}
+                  </Label>
+                  <ParameterInput
+                    param={param}
+                    value={values[param.name]}
+                    columns={codeColumns}
+                    onChange={(value) => handleChange(param.name, value)}
+                  />
+                </div>
+                {param.description && (
+                  <p className="text-xs text-muted-foreground">{param.description}</p>
+                )}
+                {fieldErrors[param.name] && (
+                  <p className="text-xs text-red-600" data-testid={`error-run-param-${param.name}`}>
+                    {fieldErrors[param.name]}
+                  </p>
+                )}
+              </div>
+            ))}
+            {Object.entries(fieldErrors)
+              .filter(([field]) => !parameters.some(param => param.name === field))
+              .map(([field, message]) => (
+                <p key={field} className="text-xs text-red-600">{field}: {message}</p>
+              ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting} data-testid="button-confirm-run-playbook">
+            {isSubmitting ? (
+              <i className="fas fa-spinner fa-spin mr-2"></i>
+            ) : (
+              <i className="fas fa-play mr-2"></i>
+            )}
+            Run
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+import { Badge } from "@/components/ui/badge";
+import type { ResultDiff, ResultDiffRow } from "@/lib/api";
+
+interface ResultDiffViewProps {
+  diff: ResultDiff;
+}
+
+const rowStyles: Record<ResultDiffRow["kind"], { before: string; after: string }> = {
+  changed: { before: "", after: "" },
+  removed: { before: "bg-red-50 text-red-800 line-through", after: "bg-muted/50" },
+  added: { before: "bg-muted/50", after: "bg-green-50 text-green-800" },
+};
+
+function formatValue(value: any): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+function DiffHalf({ columns, row, className, highlighted }: {
+  columns: string[];
+  row?: Record<string, any>;
+  className: string;
+  highlighted: Set<string>;
+}) {
+  return (
+    <>
+      {columns.map(column => (
+        <td
+          key={column}
+          className={`px-2 py-1 border-r border-border whitespace-nowrap max-w-[12rem] truncate ${className} ${
+            highlighted.has(column) ? "bg-yellow-100 text-yellow-900 font-medium" : ""
+          }`}
+          title={row ? formatValue(row[column]) : undefined}
+        >
+          {row ? formatValue(row[column]) : ""}
+        </td>
+      ))}
+    </>
+  );
+}
+
+// What the code did to its input: counts, column changes, and a side-by-side
+// sample of removed, added and changed rows with changed cells highlighted
+export function ResultDiffView({ diff }: ResultDiffViewProps) {
+  // A changed result column is highlighted on both sides, under its input name on the left
+  const inputNameOf = new Map(diff.columnsRenamed.map(({ from, to }) => [to, from]));
+
+  const columnChanges = [
+    ...diff.columnsAdded.map(column => ({ label: `+ ${column}`, className: "bg-green-100 text-green-800" })),
+    ...diff.columnsDropped.map(column => ({ label: `− ${column}`, className: "bg-red-100 text-red-800" })),
+    ...diff.columnsRenamed.map(({ from, to }) => ({ label: `${from} → ${to}`, className: "bg-blue-100 text-blue-800" })),
+  ];
+
+  return (
+    <div className="border border-border rounded-lg overflow-hidden mb-4" data-testid="result-diff">
+      <div className="bg-muted px-3 py-2 border-b border-border space-y-2">
+        <p className="text-sm font-medium text-foreground">What changed</p>
+        <div className="flex flex-wrap gap-3 text-xs" data-testid="result-diff-counts">
+          <span className="text-red-700">−{diff.rowsRemoved.toLocaleString()} rows removed</span>
+          <span className="text-green-700">+{diff.rowsAdded.toLocaleString()} rows added</span>
+          <span className="text-yellow-700">
+            {diff.rowsChanged.toLocaleString()} rows changed ({diff.cellsChanged.toLocaleString()} cells)
+          </span>
+          {diff.matchedBy === 'content' && (
+            <span className="text-muted-foreground">Rows matched by content; the code rebuilt the index</span>
+          )}
+        </div>
+        {Object.keys(diff.cellsChangedByColumn).length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {Object.entries(diff.cellsChangedByColumn).map(([column, count]) => (
+              <Badge key={column} variant="outline" className="text-xs font-normal">
+                {column}: {count.toLocaleString()} changed
+              </Badge>
+            ))}
+          </div>
+        )}
+        {columnChanges.length > 0 && (
+          <div className="flex flex-wrap gap-1" data-testid="result-diff-columns">
+            {columnChanges.map(change => (
+              <Badge key={change.label} className={`text-xs font-normal ${change.className}`}>{change.label}</Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {diff.sample.length > 0 && (
+        <div className="overflow-auto max-h-96">
+          <table className="min-w-full text-xs">
+            <thead className="bg-muted sticky top-0">
+              <tr>
+                <th colSpan={diff.beforeColumns.length} className="px-2 py-1 text-left font-medium text-foreground border-r-2 border-border">
+                  Before
+                </th>
+                <th colSpan={diff.afterColumns.length} className="px-2 py-1 text-left font-medium text-foreground">
+                  After
+                </th>
+              </tr>
+              <tr>
+                {diff.beforeColumns.map((column, index) => (
+                  <th
+                    key={`before-${column}`}
+                    className={`px-2 py-1 text-left font-normal text-muted-foreground whitespace-nowrap ${
+                      index === diff.beforeColumns.length - 1 ? "border-r-2" : "border-r"
+                    } border-border`}
+                  >
+                    {column}
+                  </th>
+                ))}
+                {diff.afterColumns.map(column => (
+                  <th key={`after-${column}`} className="px-2 py-1 text-left font-normal text-muted-foreground whitespace-nowrap border-r border-border">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {diff.sample.map((row, index) => {
+                const changed = new Set(row.changedColumns || []);
+                const changedInputs = new Set((row.changedColumns || []).map(column => inputNameOf.get(column) ?? column));
+                return (
+                  <tr key={index} className="border-t border-border" data-testid={`result-diff-row-${index}`}>
+                    <DiffHalf
+                      columns={diff.beforeColumns}
+                      row={row.before}
+                      className={rowStyles[row.kind].before}
+                      highlighted={changedInputs}
+                    />
+                    <DiffHalf
+                      columns={diff.afterColumns}
+                      row={row.after}
+                      className={rowStyles[row.kind].after}
+                      highlighted={changed}
+                    />
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {diff.sampleTruncated && (
+        <p className="px-3 py-2 text-xs text-muted-foreground border-t border-border">
+          Showing the first {diff.sample.length} differing rows. Download the result for the rest.
+        </p>
+      )}
+    </div>
+  );
+}
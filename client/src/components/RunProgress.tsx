@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { ExecutionResponse } from "@/lib/api";
+
+interface RunProgressProps {
+  run?: ExecutionResponse;
+  onCancel: () => void;
+  isCancelling: boolean;
+}
+
+const stageDetails = {
+  queued: { label: "Waiting in queue", percent: 10 },
+  loading: { label: "Loading sheet data", percent: 30 },
+  executing: { label: "Running transformation", percent: 60 },
+  fixing: { label: "Repairing failed code", percent: 75 },
+  saving: { label: "Saving results", percent: 90 },
+};
+
+export function RunProgress({ run, onCancel, isCancelling }: RunProgressProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const stage = run?.progress?.stage || "queued";
+  const { label, percent } = stageDetails[stage];
+  const startedAt = run?.progress?.startedAt;
+  const elapsedSeconds = startedAt ? Math.max(0, Math.round((now - startedAt) / 1000)) : 0;
+
+  return (
+    <div className="space-y-2 p-3 bg-muted rounded-lg" data-testid="run-progress">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-foreground" data-testid="run-progress-stage">
+          <i className="fas fa-spinner fa-spin mr-2"></i>
+          {label}
+          {stage === "queued" && run?.progress?.queuePosition && ` (#${run.progress.queuePosition})`}
+        </span>
+        {startedAt && (
+          <span className="text-xs text-muted-foreground">{elapsedSeconds}s</span>
+        )}
+      </div>
+      <Progress value={percent} className="h-2" />
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={onCancel}
+        disabled={isCancelling}
+        data-testid="button-cancel-run"
+      >
+        <i className="fas fa-stop mr-2"></i>
+        {isCancelling ? "Cancelling..." : "Cancel"}
+      </Button>
+    </div>
+  );
+}
@@ -1,10 +1,87 @@
+import { useCallback, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { canAccessPlaybook, canShareIntoWorkspace } from "@shared/permissions";
+import { cancelRun, type ExecutionResponse } from "@/lib/api";
+import { useRunStatus } from "@/hooks/use-run-status";
+import { RunProgress } from "@/components/RunProgress";
+import { PlaybookRunDialog } from "@/components/PlaybookRunDialog";
+import { PlaybookHistoryDialog } from "@/components/PlaybookHistoryDialog";
+
+interface PlaybookShareMenuProps {
+  playbook: any;
+  workspaces: any[];
+}
+
+function PlaybookShareMenu({ playbook, workspaces }: PlaybookShareMenuProps) {
+  const { toast } = useToast();
+  const shareTargets = workspaces.filter((workspace: any) => canShareIntoWorkspace(workspace.role));
+
+  const handleShare = async (workspaceId: string | null) => {
+    try {
+      await apiRequest("PUT", `/api/playbooks/${playbook.id}/workspace`, { workspaceId });
+      queryClient.invalidateQueries({ queryKey: ["/api/playbooks"] });
+      toast({
+        title: workspaceId ? "Playbook shared" : "Playbook made private",
+        description: `"${playbook.name}" sharing has been updated.`,
+      });
+    } catch (error) {
+      console.error("Share playbook error:", error);
+      toast({
+        title: "Failed to share playbook",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="px-2 py-1 text-xs"
+          data-testid={`button-share-playbook-${playbook.id}`}
+        >
+          <i className="fas fa-share-alt"></i>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Share to workspace</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleShare(null)} disabled={!playbook.workspaceId}>
+          Private
+        </DropdownMenuItem>
+        {shareTargets.map((workspace: any) => (
+          <DropdownMenuItem
+            key={workspace.id}
+            onClick={() => handleShare(workspace.id)}
+            disabled={workspace.id === playbook.workspaceId}
+          >
+            {workspace.name}
+          </DropdownMenuItem>
+        ))}
+        {shareTargets.length === 0 && (
+          <DropdownMenuItem disabled>No workspaces you can share to</DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
 
 interface SavedPlaybooksProps {
   uploadId: string;
@@ -14,12 +91,46 @@ interface SavedPlaybooksProps {
 
 export function SavedPlaybooks({ uploadId, sheetName, onPlaybookRun }: SavedPlaybooksProps) {
   const { toast } = useToast();
+  const [activeRun, setActiveRun] = useState<{ runId: string; playbookName: string } | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [runDialogPlaybook, setRunDialogPlaybook] = useState<any>(null);
+  
+  const handleRunFinished = useCallback((run: ExecutionResponse) => {
+    const playbookName = activeRun?.playbookName;
+    setActiveRun(null);
+    setIsCancelling(false);
+    onPlaybookRun(run);
+    
+    if (run.status === 'completed') {
+      toast({
+        title: "Playbook executed successfully",
+        description: `"${playbookName}" completed processing.`,
+      });
+    } else if (run.status === 'cancelled') {
+      toast({
+        title: "Playbook run cancelled",
+        description: `"${playbookName}" was stopped before it finished.`,
+      });
+    } else {
+      toast({
+        title: "Playbook execution failed",
+        description: run.error,
+        variant: "destructive",
+      });
+    }
+  }, [activeRun, onPlaybookRun, toast]);
+  
+  const { run: activeRunStatus } = useRunStatus(activeRun?.runId ?? null, handleRunFinished);
   
   const { data: playbooks = [], isLoading } = useQuery({
     queryKey: ["/api/playbooks"],
   }) as { data: any[], isLoading: boolean };
 
-  const handleRunPlaybook = async (playbook: any) => {
+  const { data: workspaces = [] } = useQuery({
+    queryKey: ["/api/workspaces"],
+  }) as { data: any[] };
+
+  const handleRunPlaybook = (playbook: any) => {
     if (!uploadId || !sheetName) {
       toast({
         title: "No data selected",
@@ -29,40 +140,20 @@ export function SavedPlaybooks({ uploadId, sheetName, onPlaybookRun }: SavedPlay
       return;
     }
 
-    try {
-      // Simple parameter mapping - in production, this would be more sophisticated
-      const parameterMapping: Record<string, any> = {};
-      
-      // For now, use default values from the playbook parameters
-      playbook.parameters?.forEach((param: any) => {
-        parameterMapping[param.name] = param.defaultValue;
-      });
-
-      const response = await apiRequest("POST", `/api/playbooks/${playbook.id}/run`, {
-        uploadId,
-        sheetName,
-        parameterMapping
-      });
+    setRunDialogPlaybook(playbook);
+  };
 
-      const result = await response.json();
-      onPlaybookRun(result);
-      
-      if (result.success) {
-        toast({
-          title: "Playbook executed successfully",
-          description: `"${playbook.name}" completed processing.`,
-        });
-      } else {
-        toast({
-          title: "Playbook execution failed",
-          description: result.error,
-          variant: "destructive",
-        });
-      }
+  const handleCancelRun = async () => {
+    if (!activeRun) return;
+    
+    setIsCancelling(true);
+    try {
+      await cancelRun(activeRun.runId);
     } catch (error) {
-      console.error("Playbook execution error:", error);
+      console.error("Cancel error:", error);
+      setIsCancelling(false);
       toast({
-        title: "Execution failed",
+        title: "Failed to cancel run",
         description: (error as Error).message,
         variant: "destructive",
       });
@@ -80,6 +171,12 @@ export function SavedPlaybooks({ uploadId, sheetName, onPlaybookRun }: SavedPlay
         </div>
       </CardHeader>
       <CardContent>
+        {activeRun && (
+          <div className="mb-3">
+            <p className="text-xs text-muted-foreground mb-2">Running "{activeRun.playbookName}"</p>
+            <RunProgress run={activeRunStatus} onCancel={handleCancelRun} isCancelling={isCancelling} />
+          </div>
+        )}
         {isLoading ? (
           <div className="space-y-3">
             {[1, 2].map(i => (
@@ -103,21 +200,37 @@ export function SavedPlaybooks({ uploadId, sheetName, onPlaybookRun }: SavedPlay
                       {playbook.description || playbook.nlInstruction}
                     </p>
                   </div>
-                  <Button 
-                    variant="ghost"
-                    size="sm"
-                    className="text-primary hover:bg-accent px-2 py-1 rounded text-xs ml-2"
-                    onClick={() => handleRunPlaybook(playbook)}
-                    disabled={!uploadId || !sheetName}
-                    data-testid={`button-run-playbook-${playbook.id}`}
-                  >
-                    <i className="fas fa-play"></i>
-                  </Button>
+                  <PlaybookHistoryDialog playbook={playbook} />
+                  {canAccessPlaybook(playbook.accessRole, 'share') && (
+                    <PlaybookShareMenu playbook={playbook} workspaces={workspaces} />
+                  )}
+                  {canAccessPlaybook(playbook.accessRole, 'run') && (
+                    <Button 
+                      variant="ghost"
+                      size="sm"
+                      className="text-primary hover:bg-accent px-2 py-1 rounded text-xs ml-2"
+                      onClick={() => handleRunPlaybook(playbook)}
+                      disabled={!uploadId || !sheetName || !!activeRun}
+                      data-testid={`button-run-playbook-${playbook.id}`}
+                    >
+                      <i className="fas fa-play"></i>
+                    </Button>
+                  )}
                 </div>
                 <div className="flex items-center space-x-2 mt-2">
                   <Badge className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
                     {playbook.parameters?.length || 0} params
                   </Badge>
+                  <Badge variant="outline" className="text-xs" data-testid={`playbook-version-badge-${playbook.id}`}>
+                    v{playbook.currentVersion}
+                  </Badge>
+                  {playbook.workspaceId && (
+                    <Badge variant="outline" className="text-xs" data-testid={`playbook-workspace-${playbook.id}`}>
+                      <i className="fas fa-users mr-1"></i>
+                      {workspaces.find((w: any) => w.id === playbook.workspaceId)?.name || 'Shared'}
+                      {playbook.accessRole !== 'owner' && ` • ${playbook.accessRole}`}
+                    </Badge>
+                  )}
                   <span className="text-xs text-muted-foreground">
                     Used {playbook.usageCount || 0} times
                   </span>
@@ -126,6 +239,16 @@ export function SavedPlaybooks({ uploadId, sheetName, onPlaybookRun }: SavedPlay
             ))}
           </div>
         )}
+        {runDialogPlaybook && (
+          <PlaybookRunDialog
+            playbook={runDialogPlaybook}
+            uploadId={uploadId}
+            sheetName={sheetName}
+            open={!!runDialogPlaybook}
+            onOpenChange={(open) => !open && setRunDialogPlaybook(null)}
+            onRunStarted={(runId) => setActiveRun({ runId, playbookName: runDialogPlaybook.name })}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState, type MouseEvent as ReactMouseEvent, type ReactNode } from "react";
+import { useQueries } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { getSheetRows, type SheetRowPage } from "@/lib/api";
+
+interface SheetColumn {
+  name: string;
+  type: string;
+  index: number;
+}
+
+interface SheetGridProps {
+  uploadId: string;
+  sheetName: string;
+  columns: SheetColumn[];
+  rowCount: number;
+}
+
+const ROW_HEIGHT = 32;
+const VIEWPORT_HEIGHT = 420;
+const OVERSCAN_ROWS = 10;
+const PAGE_SIZE = 200;
+const DEFAULT_COLUMN_WIDTH = 160;
+const MIN_COLUMN_WIDTH = 60;
+const INDEX_COLUMN_WIDTH = 64;
+const FILTER_DEBOUNCE_MS = 300;
+
+const NUMERIC_TYPES = new Set(["number", "currency", "percentage"]);
+
+// Serial day numbers in a date column Excel did not format as dates
+function excelSerialToDate(serial: number): string {
+  return new Date(Math.round((serial - 25569) * 86400000)).toISOString().slice(0, 10);
+}
+
+function renderCell(type: string, value: any): ReactNode {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  switch (type) {
+    case "number":
+      return typeof value === "number" ? value.toLocaleString() : String(value);
+    case "currency":
+      return typeof value === "number"
+        ? value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+        : String(value);
+    case "percentage":
+      // Read as fractions, as Excel stores them
+      return typeof value === "number"
+        ? `${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}%`
+        : String(value);
+    case "date":
+      if (typeof value === "number") return excelSerialToDate(value);
+      // Dates arrive as ISO timestamps; whole days show without the time
+      return /^\d{4}-\d{2}-\d{2}T00:00:00(\.000)?Z$/.test(value) ? value.slice(0, 10) : String(value);
+    case "boolean": {
+      const isTrue = value === true || ["true", "yes", "1"].includes(String(value).toLowerCase());
+      return <i className={`fas ${isTrue ? "fa-check text-green-600" : "fa-times text-muted-foreground"}`}></i>;
+    }
+    case "category":
+      return <Badge variant="outline" className="text-xs font-normal">{String(value)}</Badge>;
+    default:
+      return String(value);
+  }
+}
+
+// Scrolls through the whole sheet by fetching only the pages of rows in view.
+// Sorting and filtering happen on the server.
+export function SheetGrid({ uploadId, sheetName, columns, rowCount }: SheetGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [sort, setSort] = useState<{ column: string; order: "asc" | "desc" } | null>(null);
+  const [filterInputs, setFilterInputs] = useState<Record<string, string>>({});
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+  const totalRowsRef = useRef(rowCount);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(Object.fromEntries(Object.entries(filterInputs).filter(([, value]) => value.trim() !== "")));
+    }, FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filterInputs]);
+
+  // A new query starts at the top
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [sort, filters]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS;
+  const firstPage = Math.floor(firstRow / PAGE_SIZE);
+  const lastPage = Math.floor(lastRow / PAGE_SIZE);
+  const pageNumbers = Array.from({ length: lastPage - firstPage + 1 }, (_, i) => firstPage + i);
+
+  const pageResults = useQueries({
+    queries: pageNumbers.map(page => ({
+      queryKey: ["/api/upload", uploadId, "sheet", sheetName, "rows", { page, sort, filters }],
+      queryFn: ({ signal }: { signal: AbortSignal }) => getSheetRows(uploadId, sheetName, {
+        offset: page * PAGE_SIZE,
+        limit: PAGE_SIZE,
+        sort: sort?.column,
+        order: sort?.order,
+        filters,
+      }, signal),
+    })),
+  });
+
+  const pages = new Map<number, SheetRowPage>();
+  pageResults.forEach((result, i) => {
+    if (result.data) pages.set(pageNumbers[i], result.data);
+  });
+
+  // Keeps the scroll height steady while the pages of a new query load
+  const loadedPage = pageResults.find(result => result.data)?.data;
+  if (loadedPage) totalRowsRef.current = loadedPage.totalRows;
+  const totalRows = totalRowsRef.current;
+  const error = pageResults.find(result => result.error)?.error as Error | undefined;
+
+  const widthOf = (column: string) => columnWidths[column] ?? DEFAULT_COLUMN_WIDTH;
+  const gridWidth = INDEX_COLUMN_WIDTH + columns.reduce((sum, column) => sum + widthOf(column.name), 0);
+
+  const handleSort = (column: string) => {
+    setSort(current => {
+      if (current?.column !== column) return { column, order: "asc" };
+      return current.order === "asc" ? { column, order: "desc" } : null;
+    });
+  };
+
+  const handleResizeStart = (column: string, event: ReactMouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const startX = event.clientX;
+    const startWidth = widthOf(column);
+
+    const onMove = (move: MouseEvent) => {
+      setColumnWidths(widths => ({ ...widths, [column]: Math.max(MIN_COLUMN_WIDTH, startWidth + move.clientX - startX) }));
+    };
+    const onUp = () => {
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("mouseup", onUp);
+    };
+    window.addEventListener("mousemove", onMove);
+    window.addEventListener("mouseup", onUp);
+  };
+
+  const visibleRows: number[] = [];
+  for (let index = firstRow; index < Math.min(lastRow, totalRows); index++) {
+    visibleRows.push(index);
+  }
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={scrollRef}
+        className="overflow-auto border border-border rounded-lg"
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        data-testid="sheet-grid"
+      >
+        <div style={{ width: gridWidth }}>
+          {/* Header: sortable column names with resize handles, then per-column filters */}
+          <div className="sticky top-0 z-10 bg-muted border-b border-border">
+            <div className="flex">
+              <div className="shrink-0 px-2 py-2 text-xs text-muted-foreground border-r border-border" style={{ width: INDEX_COLUMN_WIDTH }}>
+                #
+              </div>
+              {columns.map(column => (
+                <div
+                  key={column.name}
+                  className="relative shrink-0 px-2 py-2 text-xs font-medium text-muted-foreground uppercase tracking-wider border-r border-border cursor-pointer select-none truncate"
+                  style={{ width: widthOf(column.name) }}
+                  onClick={() => handleSort(column.name)}
+                  title={`${column.name} (${column.type})`}
+                  data-testid={`column-header-${column.name}`}
+                >
+                  {column.name}
+                  {sort?.column === column.name && (
+                    <i className={`fas ${sort.order === "asc" ? "fa-sort-up" : "fa-sort-down"} ml-1`}></i>
+                  )}
+                  <span
+                    className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40"
+                    onMouseDown={(e) => handleResizeStart(column.name, e)}
+                    onClick={(e) => e.stopPropagation()}
+                    data-testid={`column-resize-${column.name}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex border-t border-border">
+              <div className="shrink-0 border-r border-border" style={{ width: INDEX_COLUMN_WIDTH }} />
+              {columns.map(column => (
+                <div key={column.name} className="shrink-0 p-1 border-r border-border" style={{ width: widthOf(column.name) }}>
+                  <Input
+                    value={filterInputs[column.name] || ""}
+                    onChange={(e) => setFilterInputs(inputs => ({ ...inputs, [column.name]: e.target.value }))}
+                    placeholder={NUMERIC_TYPES.has(column.type) ? "e.g. >100" : "Filter"}
+                    className="h-6 px-2 text-xs bg-background"
+                    data-testid={`column-filter-${column.name}`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Only the rows in view are rendered, positioned inside a full-height spacer */}
+          <div className="relative" style={{ height: totalRows * ROW_HEIGHT }}>
+            {visibleRows.map(index => {
+              const page = pages.get(Math.floor(index / PAGE_SIZE));
+              const row = page?.rows[index - Math.floor(index / PAGE_SIZE) * PAGE_SIZE];
+              return (
+                <div
+                  key={index}
+                  className="absolute left-0 flex border-b border-border text-sm"
+                  style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT, width: gridWidth }}
+                  data-testid={`grid-row-${index}`}
+                >
+                  <div className="shrink-0 px-2 flex items-center text-xs text-muted-foreground border-r border-border" style={{ width: INDEX_COLUMN_WIDTH }}>
+                    {index + 1}
+                  </div>
+                  {columns.map(column => (
+                    <div
+                      key={column.name}
+                      className={`shrink-0 px-2 flex items-center border-r border-border overflow-hidden whitespace-nowrap ${
+                        NUMERIC_TYPES.has(column.type) ? "justify-end tabular-nums" : ""
+                      }`}
+                      style={{ width: widthOf(column.name) }}
+                      title={row && row[column.name] != null ? String(row[column.name]) : undefined}
+                      data-testid={`cell-${index}-${column.name}`}
+                    >
+                      {row ? renderCell(column.type, row[column.name]) : <span className="text-muted-foreground">…</span>}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span data-testid="grid-row-count">
+          {totalRows === rowCount
+            ? `${rowCount.toLocaleString()} rows`
+            : `${totalRows.toLocaleString()} of ${rowCount.toLocaleString()} rows match`}
+        </span>
+        {error && <span className="text-red-600">{error.message}</span>}
+      </div>
+    </div>
+  );
+}
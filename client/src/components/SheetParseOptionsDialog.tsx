@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { getRawSheetRows, updateSheetParseOptions, type SheetParseOptions, type UploadResponse } from "@/lib/api";
+import { COLUMN_TYPES } from "@shared/schema";
+
+interface SheetParseOptionsDialogProps {
+  uploadId: string;
+  sheet: Omit<UploadResponse['sheets'][number], 'preview'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RAW_ROW_LIMIT = 20;
+const DETECTED = "detected";
+
+const DEFAULT_OPTIONS: SheetParseOptions = {
+  headerRow: 0,
+  skipLeadingRows: 0,
+  skipTrailingRows: 0,
+  columnTypes: {},
+};
+
+function toCount(value: string): number {
+  const count = parseInt(value, 10);
+  return isNaN(count) || count < 0 ? 0 : count;
+}
+
+// Lets the user fix what upload guessed about a sheet: which row holds the
+// column names, which rows to drop around the data, and each column's type
+export function SheetParseOptionsDialog({ uploadId, sheet, open, onOpenChange }: SheetParseOptionsDialogProps) {
+  const saved = sheet.parseOptions ?? DEFAULT_OPTIONS;
+  const [options, setOptions] = useState<SheetParseOptions>(saved);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setOptions(sheet.parseOptions ?? DEFAULT_OPTIONS);
+  }, [open, sheet.parseOptions]);
+
+  const { data: raw, isLoading } = useQuery({
+    queryKey: ["/api/upload", uploadId, "sheet", sheet.name, "raw-rows"],
+    queryFn: () => getRawSheetRows(uploadId, sheet.name, RAW_ROW_LIMIT),
+    enabled: open,
+  });
+
+  const save = useMutation({
+    mutationFn: (next: SheetParseOptions) => updateSheetParseOptions(uploadId, sheet.name, next),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/upload", uploadId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/uploads"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not re-read the sheet",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Column names come from the header row, so types can only be set for the saved one
+  const headerChanged = options.headerRow !== saved.headerRow;
+  const rows = raw?.rows ?? [];
+  const width = Math.max(0, ...rows.map(row => row.length));
+
+  const rowStyle = (index: number) => {
+    if (index === options.headerRow) return "bg-primary/10 font-medium text-foreground";
+    if (index < options.headerRow) return "text-muted-foreground/60 line-through";
+    if (index <= options.headerRow + options.skipLeadingRows) return "text-muted-foreground/60 line-through";
+    if (raw && index >= raw.rowCount - options.skipTrailingRows) return "text-muted-foreground/60 line-through";
+    return "text-foreground";
+  };
+
+  const setColumnType = (column: string, type: string) => {
+    setOptions(prev => {
+      const { [column]: _removed, ...rest } = prev.columnTypes;
+      return { ...prev, columnTypes: type === DETECTED ? rest : { ...rest, [column]: type } };
+    });
+  };
+
+  const handleSave = () => {
+    save.mutate(headerChanged ? { ...options, columnTypes: {} } : options);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Fix parsing of "{sheet.name}"</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label className="text-sm text-foreground">Header row</Label>
+            <p className="text-xs text-muted-foreground">Click the row that holds the column names.</p>
+            {isLoading ? (
+              <Skeleton className="h-40" />
+            ) : (
+              <div className="border border-border rounded-lg overflow-auto max-h-64">
+                <table className="min-w-full text-xs">
+                  <tbody>
+                    {rows.map((row, index) => (
+                      <tr
+                        key={index}
+                        className={`border-t border-border first:border-t-0 cursor-pointer hover:bg-muted ${rowStyle(index)}`}
+                        onClick={() => setOptions(prev => ({ ...prev, headerRow: index }))}
+                        data-testid={`raw-row-${index}`}
+                      >
+                        <td className="px-2 py-1 text-muted-foreground tabular-nums border-r border-border">{index + 1}</td>
+                        {Array.from({ length: width }, (_, column) => (
+                          <td key={column} className="px-2 py-1 whitespace-nowrap max-w-[10rem] truncate" title={row[column]}>
+                            {row[column] ?? ""}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {raw && raw.rowCount > rows.length && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {rows.length} of {raw.rowCount.toLocaleString()} rows.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="skip-leading-rows" className="text-sm text-foreground">Skip rows below the header</Label>
+              <Input
+                id="skip-leading-rows"
+                type="number"
+                min={0}
+                value={options.skipLeadingRows}
+                onChange={(e) => setOptions(prev => ({ ...prev, skipLeadingRows: toCount(e.target.value) }))}
+                data-testid="input-skip-leading-rows"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="skip-trailing-rows" className="text-sm text-foreground">Skip rows at the end</Label>
+              <Input
+                id="skip-trailing-rows"
+                type="number"
+                min={0}
+                value={options.skipTrailingRows}
+                onChange={(e) => setOptions(prev => ({ ...prev, skipTrailingRows: toCount(e.target.value) }))}
+                data-testid="input-skip-trailing-rows"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm text-foreground">Column types</Label>
+            {headerChanged ? (
+              <p className="text-xs text-muted-foreground" data-testid="column-types-header-changed">
+                Save the new header row first, then set the types of its columns.
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto pr-1">
+                {sheet.columns.map(column => (
+                  <div key={column.name} className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-foreground truncate" title={column.name}>{column.name}</span>
+                    <Select
+                      value={options.columnTypes[column.name] ?? DETECTED}
+                      onValueChange={(type) => setColumnType(column.name, type)}
+                    >
+                      <SelectTrigger className="w-40 h-8 text-xs" data-testid={`select-column-type-${column.name}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DETECTED}>Detected ({column.inferredType ?? column.type})</SelectItem>
+                        {COLUMN_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            className="mr-auto"
+            onClick={() => save.mutate(DEFAULT_OPTIONS)}
+            disabled={save.isPending || !sheet.parseOptions}
+            data-testid="button-reset-parse-options"
+          >
+            Reset to detected
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={save.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={save.isPending} data-testid="button-save-parse-options">
+            {save.isPending ? (
+              <i className="fas fa-spinner fa-spin mr-2"></i>
+            ) : (
+              <i className="fas fa-check mr-2"></i>
+            )}
+            Re-read sheet
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { workspaceRoles, type WorkspaceRole } from "@shared/schema";
+import { canManageWorkspace } from "@shared/permissions";
+
+interface WorkspaceSummary {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+interface WorkspaceMemberSummary {
+  userId: string;
+  username: string;
+  role: WorkspaceRole;
+}
+
+function WorkspaceMembers({ workspace }: { workspace: WorkspaceSummary }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("runner");
+  const canManage = canManageWorkspace(workspace.role);
+  const membersKey = ["/api/workspaces", workspace.id, "members"];
+
+  const { data: members = [] } = useQuery<WorkspaceMemberSummary[]>({
+    queryKey: membersKey,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const refreshMembers = () => {
+    queryClient.invalidateQueries({ queryKey: membersKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/playbooks"] });
+  };
+
+  const addMember = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/workspaces/${workspace.id}/members`, { username: username.trim(), role });
+    },
+    onSuccess: () => {
+      setUsername("");
+      refreshMembers();
+    },
+    onError: onError("Failed to add member"),
+  });
+
+  const changeRole = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: WorkspaceRole }) => {
+      await apiRequest("PATCH", `/api/workspaces/${workspace.id}/members/${userId}`, { role });
+    },
+    onSuccess: refreshMembers,
+    onError: onError("Failed to change role"),
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/workspaces/${workspace.id}/members/${userId}`);
+    },
+    onSuccess: refreshMembers,
+    onError: onError("Failed to remove member"),
+  });
+
+  return (
+    <div className="space-y-3">
+      {members.map((member) => (
+        <div key={member.userId} className="flex items-center justify-between" data-testid={`workspace-member-${member.username}`}>
+          <span className="text-sm text-foreground">{member.username}</span>
+          <div className="flex items-center space-x-2">
+            {canManage ? (
+              <Select
+                value={member.role}
+                onValueChange={(value) => changeRole.mutate({ userId: member.userId, role: value as WorkspaceRole })}
+              >
+                <SelectTrigger className="h-8 w-28 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaceRoles.map((r) => (
+                    <SelectItem key={r} value={r}>{r}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Badge variant="outline" className="text-xs">{member.role}</Badge>
+            )}
+            {(canManage || member.userId === user?.id) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeMember.mutate(member.userId)}
+                data-testid={`button-remove-member-${member.username}`}
+              >
+                <i className={member.userId === user?.id ? "fas fa-sign-out-alt" : "fas fa-times"}></i>
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {canManage && (
+        <div className="flex items-center space-x-2 pt-2 border-t border-border">
+          <Input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            className="h-8 text-sm"
+            data-testid="input-member-username"
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {workspaceRoles.map((r) => (
+                <SelectItem key={r} value={r}>{r}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={() => addMember.mutate()}
+            disabled={!username.trim() || addMember.isPending}
+            data-testid="button-add-member"
+          >
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function WorkspacesDialog() {
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: workspaces = [] } = useQuery<WorkspaceSummary[]>({
+    queryKey: ["/api/workspaces"],
+    enabled: open,
+  });
+
+  const createWorkspace = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/workspaces", { name: newName.trim() });
+      return await res.json() as WorkspaceSummary;
+    },
+    onSuccess: (workspace) => {
+      setNewName("");
+      setSelectedId(workspace.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create workspace", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const selected = workspaces.find((w) => w.id === selectedId);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" data-testid="button-workspaces">
+          <i className="fas fa-users"></i>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Workspaces</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New workspace name"
+              className="h-8 text-sm"
+              data-testid="input-workspace-name"
+            />
+            <Button
+              size="sm"
+              onClick={() => createWorkspace.mutate()}
+              disabled={!newName.trim() || createWorkspace.isPending}
+              data-testid="button-create-workspace"
+            >
+              Create
+            </Button>
+          </div>
+
+          {workspaces.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Create a workspace to share playbooks with your team.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {workspaces.map((workspace) => (
+                <button
+                  key={workspace.id}
+                  className={`w-full flex items-center justify-between border rounded-lg px-3 py-2 text-left ${
+                    workspace.id === selectedId ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+                  }`}
+                  onClick={() => setSelectedId(workspace.id === selectedId ? null : workspace.id)}
+                  data-testid={`workspace-${workspace.id}`}
+                >
+                  <span className="text-sm font-medium text-foreground">{workspace.name}</span>
+                  <Badge variant="outline" className="text-xs">{workspace.role}</Badge>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {selected && (
+            <div className="p-3 bg-muted rounded-lg">
+              <p className="text-sm font-medium text-foreground mb-3">Members of {selected.name}</p>
+              <WorkspaceMembers workspace={selected} />
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
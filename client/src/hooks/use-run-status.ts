@@ -0,0 +1,32 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { isRunFinished, type ExecutionResponse } from "@/lib/api";
+
+const POLL_INTERVAL_MS = 1000;
+
+// Polls a queued run until it finishes, then hands the final state to onFinished once
+export function useRunStatus(
+  runId: string | null,
+  onFinished: (run: ExecutionResponse) => void
+) {
+  const { data, error } = useQuery<ExecutionResponse>({
+    queryKey: ["/api/runs", runId],
+    enabled: !!runId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status && isRunFinished(status) ? false : POLL_INTERVAL_MS;
+    },
+  });
+
+  const reportedRunId = useRef<string | null>(null);
+  const run = data && data.runId === runId ? data : undefined;
+
+  useEffect(() => {
+    if (run && isRunFinished(run.status) && reportedRunId.current !== run.runId) {
+      reportedRunId.current = run.runId;
+      onFinished(run);
+    }
+  }, [run, onFinished]);
+
+  return { run, error: error as Error | null };
+}
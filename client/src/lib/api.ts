@@ -10,12 +10,87 @@ export interface UploadResponse {
       name: string;
       type: string;
       index: number;
+      // Share of sampled cells that fit the type, 0-1
+      confidence?: number;
+      format?: ColumnFormat;
+      // The detected type, when the user set a different one
+      inferredType?: string;
+      profile?: ColumnProfile;
     }>;
     preview: Array<Record<string, any>>;
+    parseOptions?: SheetParseOptions;
   }>;
   filename: string;
 }
 
+export interface ColumnFormat {
+  numberKind?: 'integer' | 'decimal';
+  decimalSeparator?: '.' | ',';
+  currency?: string;
+  dateFormat?: string;
+}
+
+// How a sheet is read: header row, rows to drop and column types set by the user
+export interface SheetParseOptions {
+  // Counted from the first row of the sheet, 0-based
+  headerRow: number;
+  skipLeadingRows: number;
+  skipTrailingRows: number;
+  columnTypes: Record<string, string>;
+}
+
+// The first rows of a sheet as written, before any header is applied
+export interface RawSheetRows {
+  rows: string[][];
+  rowCount: number;
+}
+
+// Statistics over every value of an uploaded column
+export interface ColumnProfile {
+  count: number;
+  nullCount: number;
+  distinctCount: number;
+  valueKinds: Record<string, number>;
+  topValues: Array<{ value: string; count: number }>;
+  patterns: { email: number; phone: number; url: number };
+  numeric?: {
+    min: number;
+    max: number;
+    mean: number;
+    stdDev: number;
+    quantiles: { p5: number; p25: number; p50: number; p75: number; p95: number };
+    outlierCount: number;
+  };
+  dateRange?: { min: string; max: string };
+  issues: string[];
+}
+
+export interface UploadSummary {
+  uploadId: string;
+  filename: string;
+  sheets: Array<Omit<UploadResponse['sheets'][number], 'preview'>>;
+  createdAt: string;
+}
+
+// An extra sheet handed to transform_data(df, inputs) as inputs[name]
+export interface InputSheet {
+  name: string;
+  uploadId: string;
+  sheetName: string;
+}
+
+export interface CodeFinding {
+  severity: 'blocking' | 'warning';
+  rule: string;
+  message: string;
+  line?: number;
+}
+
+export interface CodeAnalysis {
+  findings: CodeFinding[];
+  safe: boolean;
+}
+
 export interface CodeGenerationResponse {
   code: string;
   confidence: 'high' | 'medium' | 'low';
@@ -26,19 +101,162 @@ export interface CodeGenerationResponse {
     description?: string;
   }>;
   explanation: string;
+  analysis?: CodeAnalysis;
+  conversationId?: string;
+}
+
+export type RunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface RunProgress {
+  stage: 'queued' | 'loading' | 'executing' | 'fixing' | 'saving';
+  queuePosition?: number;
+  startedAt?: number;
+}
+
+export interface ResultDiffRow {
+  kind: 'changed' | 'removed' | 'added';
+  label?: string;
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+  changedColumns?: string[];
+}
+
+export interface ResultDiff {
+  // Rows are matched by index label, or by content when the code rebuilt the index
+  matchedBy: 'index' | 'content';
+  rowsRemoved: number;
+  rowsAdded: number;
+  rowsChanged: number;
+  cellsChanged: number;
+  cellsChangedByColumn: Record<string, number>;
+  columnsAdded: string[];
+  columnsDropped: string[];
+  columnsRenamed: Array<{ from: string; to: string }>;
+  beforeColumns: string[];
+  afterColumns: string[];
+  sample: ResultDiffRow[];
+  sampleTruncated: boolean;
 }
 
 export interface ExecutionResponse {
   runId: string;
+  status: RunStatus;
   success: boolean;
   summary?: {
     originalRowCount: number;
     resultRowCount: number;
     rowsAffected: number;
+    previewRowCount: number;
     preview: Array<Record<string, any>>;
+    dtypes?: Record<string, string>;
+    diff?: ResultDiff;
   };
   error?: string;
   downloadUrl?: string;
+  progress?: RunProgress;
+  // Auto-fix chain links; attempt 1 is the code the user ran
+  attempt: number;
+  previousRunId?: string;
+  nextRunId?: string;
+  // Set for pipeline runs
+  pipelineId?: string;
+  stepResults?: PipelineStepResult[];
+  inputSheets?: InputSheet[];
+  executionTimeMs?: number;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export function isRunFinished(status: RunStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface RunAttempt extends ExecutionResponse {
+  code: string;
+}
+
+export interface RunAttempts {
+  attempts: RunAttempt[];
+  // Original code -> latest attempt
+  diff: DiffLine[];
+}
+
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  generatedCode?: string | null;
+  confidence?: CodeGenerationResponse['confidence'] | null;
+  createdAt: string;
+}
+
+export interface Conversation {
+  id: string;
+  uploadId: string;
+  sheetName: string;
+  title: string;
+  messages: ConversationMessage[];
+  runs: RunAttempt[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PipelineStep {
+  id: string;
+  name: string;
+  kind: 'code' | 'playbook';
+  enabled: boolean;
+  nlInstruction?: string;
+  code?: string;
+  playbookId?: string;
+  parameters: Record<string, any>;
+}
+
+export interface PipelineStepResult {
+  stepId: string;
+  name: string;
+  // skipped: disabled; not_run: an earlier step failed
+  status: 'completed' | 'failed' | 'skipped' | 'not_run';
+  inputRowCount?: number;
+  outputRowCount?: number;
+  executionTimeMs?: number;
+  preview?: Array<Record<string, any>>;
+  error?: string;
+}
+
+export interface Pipeline {
+  id: string;
+  name: string;
+  description?: string | null;
+  steps: PipelineStep[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlaybookVersion {
+  id: string;
+  playbookId: string;
+  version: number;
+  nlInstruction: string;
+  generatedCode: string;
+  parameters: CodeGenerationResponse['parameters'];
+  changeNote?: string | null;
+  createdAt: string;
+}
+
+export interface PlaybookDiff {
+  from: number;
+  to: number;
+  nlInstruction?: { before: string; after: string };
+  code: DiffLine[];
+  parameters: Array<{ name: string; before?: any; after?: any }>;
 }
 
 export async function uploadFile(file: File): Promise<UploadResponse> {
@@ -58,6 +276,64 @@ export async function uploadFile(file: File): Promise<UploadResponse> {
   return await response.json();
 }
 
+export interface SheetRowQuery {
+  offset: number;
+  limit: number;
+  sort?: string;
+  order?: 'asc' | 'desc';
+  // Column -> text to look for, or a comparison such as ">100" for numeric columns
+  filters?: Record<string, string>;
+}
+
+export interface SheetRowPage {
+  rows: Array<Record<string, any>>;
+  offset: number;
+  // Rows matching the filters
+  totalRows: number;
+  rowCount: number;
+}
+
+export async function getSheetRows(
+  uploadId: string,
+  sheetName: string,
+  query: SheetRowQuery,
+  signal?: AbortSignal
+): Promise<SheetRowPage> {
+  const params = new URLSearchParams({
+    offset: String(query.offset),
+    limit: String(query.limit),
+    order: query.order || 'asc',
+    filters: JSON.stringify(query.filters || {}),
+  });
+  if (query.sort) params.set('sort', query.sort);
+
+  const url = `/api/upload/${encodeURIComponent(uploadId)}/sheet/${encodeURIComponent(sheetName)}/rows?${params}`;
+  const response = await fetch(url, { credentials: "include", signal });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load rows');
+  }
+
+  return await response.json();
+}
+
+export async function getRawSheetRows(uploadId: string, sheetName: string, limit = 20): Promise<RawSheetRows> {
+  const url = `/api/upload/${encodeURIComponent(uploadId)}/sheet/${encodeURIComponent(sheetName)}/raw-rows?limit=${limit}`;
+  const response = await apiRequest("GET", url, undefined);
+  return await response.json();
+}
+
+export async function updateSheetParseOptions(
+  uploadId: string,
+  sheetName: string,
+  options: SheetParseOptions
+): Promise<UploadResponse['sheets'][number]> {
+  const url = `/api/upload/${encodeURIComponent(uploadId)}/sheet/${encodeURIComponent(sheetName)}/parse-options`;
+  const response = await apiRequest("PUT", url, options);
+  return await response.json();
+}
+
 export async function generateCode(
   uploadId: string,
   sheetName: string,
@@ -90,6 +366,16 @@ export async function executeCode(
   return await response.json();
 }
 
+export async function getRunStatus(runId: string): Promise<ExecutionResponse> {
+  const response = await apiRequest("GET", `/api/runs/${runId}`, undefined);
+  return await response.json();
+}
+
+export async function cancelRun(runId: string): Promise<ExecutionResponse> {
+  const response = await apiRequest("POST", `/api/runs/${runId}/cancel`, undefined);
+  return await response.json();
+}
+
 export async function downloadResults(runId: string, format: 'xlsx' | 'csv' = 'xlsx'): Promise<Blob> {
   const response = await fetch(`/api/download/${runId}?format=${format}`);
   
@@ -122,17 +408,91 @@ export async function getPlaybooks(): Promise<any[]> {
   return await response.json();
 }
 
+export async function getPlaybookDiff(playbookId: string, from: number, to: number): Promise<PlaybookDiff> {
+  const response = await apiRequest("GET", `/api/playbooks/${playbookId}/diff?from=${from}&to=${to}`, undefined);
+  return await response.json();
+}
+
+export async function rollbackPlaybook(playbookId: string, version: number): Promise<any> {
+  const response = await apiRequest("POST", `/api/playbooks/${playbookId}/rollback`, { version });
+  return await response.json();
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ColumnMappingSuggestion {
+  inputColumn: string;
+  sheetColumn: string | null;
+  score: number;
+}
+
+export interface PlaybookColumnMapping {
+  inputColumns: Array<{ name: string; type: string; required: boolean }>;
+  suggestions: ColumnMappingSuggestion[];
+}
+
+export async function getColumnMapping(
+  playbookId: string,
+  uploadId: string,
+  sheetName: string
+): Promise<PlaybookColumnMapping> {
+  const params = new URLSearchParams({ uploadId, sheetName });
+  const response = await apiRequest("GET", `/api/playbooks/${playbookId}/column-mapping?${params}`, undefined);
+  return await response.json();
+}
+
+export class ParameterValidationError extends Error {
+  constructor(public errors: FieldError[], public columnErrors: FieldError[] = []) {
+    super([...columnErrors, ...errors].map(error => `${error.field}: ${error.message}`).join(", "));
+    this.name = "ParameterValidationError";
+  }
+}
+
 export async function runPlaybook(
   playbookId: string,
   uploadId: string,
   sheetName: string,
-  parameterMapping: Record<string, any>
+  parameterMapping: Record<string, any>,
+  columnMapping: Record<string, string | null> = {}
 ): Promise<ExecutionResponse> {
-  const response = await apiRequest("POST", `/api/playbooks/${playbookId}/run`, {
-    uploadId,
-    sheetName,
-    parameterMapping,
+  const response = await fetch(`/api/playbooks/${playbookId}/run`, {
+    method: 'POST',
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ uploadId, sheetName, parameterMapping, columnMapping }),
+    credentials: "include",
   });
 
+  if (!response.ok) {
+    const error = await response.json();
+    if (error.errors || error.columnErrors) {
+      throw new ParameterValidationError(error.errors || [], error.columnErrors || []);
+    }
+    throw new Error(error.message || 'Playbook run failed');
+  }
+
+  return await response.json();
+}
+
+export async function runPipeline(
+  uploadId: string,
+  sheetName: string,
+  steps: PipelineStep[],
+  pipelineId?: string,
+  inputSheets: InputSheet[] = []
+): Promise<ExecutionResponse> {
+  const response = await apiRequest("POST", "/api/pipelines/run", { uploadId, sheetName, steps, pipelineId, inputSheets });
+  return await response.json();
+}
+
+export async function savePipeline(
+  pipeline: { name: string; description?: string; steps: PipelineStep[] },
+  pipelineId?: string
+): Promise<Pipeline> {
+  const response = pipelineId
+    ? await apiRequest("PUT", `/api/pipelines/${pipelineId}`, pipeline)
+    : await apiRequest("POST", "/api/pipelines", pipeline);
   return await response.json();
 }
@@ -0,0 +1,112 @@
+import { useState, type FormEvent } from "react";
+import { Redirect } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth, type Credentials } from "@/hooks/use-auth";
+
+interface CredentialsFormProps {
+  mode: "login" | "register";
+  isPending: boolean;
+  onSubmit: (credentials: Credentials) => void;
+}
+
+function CredentialsForm({ mode, isPending, onSubmit }: CredentialsFormProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSubmit({ username: username.trim(), password });
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-username`}>Username</Label>
+        <Input
+          id={`${mode}-username`}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          disabled={isPending}
+          data-testid={`input-${mode}-username`}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          disabled={isPending}
+          data-testid={`input-${mode}-password`}
+        />
+        {mode === "register" && (
+          <p className="text-xs text-muted-foreground">At least 8 characters.</p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isPending || !username.trim() || !password}
+        data-testid={`button-${mode}-submit`}
+      >
+        {isPending && <i className="fas fa-spinner fa-spin mr-2"></i>}
+        {mode === "login" ? "Sign In" : "Create Account"}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <div className="bg-primary text-primary-foreground w-10 h-10 rounded-lg flex items-center justify-center">
+              <i className="fas fa-table text-lg"></i>
+            </div>
+            <div>
+              <CardTitle>DataFlow</CardTitle>
+              <p className="text-xs text-muted-foreground">Sign in to work with your files and playbooks</p>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                mode="login"
+                isPending={loginMutation.isPending}
+                onSubmit={(credentials) => loginMutation.mutate(credentials)}
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                mode="register"
+                isPending={registerMutation.isPending}
+                onSubmit={(credentials) => registerMutation.mutate(credentials)}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
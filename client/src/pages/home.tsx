@@ -7,12 +7,37 @@ import { NaturalLanguageProcessor } from "@/components/NaturalLanguageProcessor"
 import { GeneratedCode } from "@/components/GeneratedCode";
 import { ExecutionResults } from "@/components/ExecutionResults";
 import { SavedPlaybooks } from "@/components/SavedPlaybooks";
+import { ConversationHistory } from "@/components/ConversationHistory";
+import { PipelineBuilder } from "@/components/PipelineBuilder";
+import { InputSheetPicker } from "@/components/InputSheetPicker";
+import { queryClient } from "@/lib/queryClient";
+import type { InputSheet, PipelineStep } from "@/lib/api";
 
 export default function Home() {
   const [uploadId, setUploadId] = useState<string>("");
   const [selectedSheet, setSelectedSheet] = useState<string>("");
   const [generatedCode, setGeneratedCode] = useState<any>(null);
   const [executionResult, setExecutionResult] = useState<any>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [pipelineSteps, setPipelineSteps] = useState<PipelineStep[]>([]);
+  const [inputSheets, setInputSheets] = useState<InputSheet[]>([]);
+
+  // A conversation is about one sheet; switching files or sheets starts a new one
+  const handleUploadSuccess = (id: string) => {
+    setUploadId(id);
+    setConversationId(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/uploads"] });
+  };
+
+  const handleSheetSelect = (name: string) => {
+    setSelectedSheet(name);
+    setConversationId(null);
+  };
+
+  const handleCodeGenerated = (result: any) => {
+    setGeneratedCode(result);
+    setConversationId(result.conversationId ?? null);
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -23,7 +48,7 @@ export default function Home() {
           {/* Left Column - Upload & Preview */}
           <div className="lg:col-span-2 space-y-6">
             <FileUpload 
-              onUploadSuccess={setUploadId}
+              onUploadSuccess={handleUploadSuccess}
               data-testid="file-upload-section"
             />
             
@@ -31,7 +56,7 @@ export default function Home() {
               <SheetSelection 
                 uploadId={uploadId}
                 selectedSheet={selectedSheet}
-                onSheetSelect={setSelectedSheet}
+                onSheetSelect={handleSheetSelect}
                 data-testid="sheet-selection-section"
               />
             )}
@@ -43,15 +68,47 @@ export default function Home() {
                 data-testid="data-preview-section"
               />
             )}
+            
+            {uploadId && selectedSheet && (
+              <PipelineBuilder
+                uploadId={uploadId}
+                sheetName={selectedSheet}
+                steps={pipelineSteps}
+                inputSheets={inputSheets}
+                onStepsChange={setPipelineSteps}
+                onPipelineRun={setExecutionResult}
+                data-testid="pipeline-builder-section"
+              />
+            )}
           </div>
 
           {/* Right Column - NL Processing & Playbooks */}
           <div className="space-y-6">
+            {conversationId && (
+              <ConversationHistory
+                conversationId={conversationId}
+                onNewConversation={() => setConversationId(null)}
+                data-testid="conversation-history-section"
+              />
+            )}
+            
+            {uploadId && selectedSheet && (
+              <InputSheetPicker
+                uploadId={uploadId}
+                sheetName={selectedSheet}
+                inputSheets={inputSheets}
+                onChange={setInputSheets}
+                data-testid="input-sheet-picker-section"
+              />
+            )}
+            
             {uploadId && selectedSheet && (
               <NaturalLanguageProcessor 
                 uploadId={uploadId}
                 sheetName={selectedSheet}
-                onCodeGenerated={setGeneratedCode}
+                conversationId={conversationId}
+                inputSheets={inputSheets}
+                onCodeGenerated={handleCodeGenerated}
                 data-testid="nl-processor-section"
               />
             )}
@@ -62,6 +119,8 @@ export default function Home() {
                 uploadId={uploadId}
                 sheetName={selectedSheet}
                 onExecutionComplete={setExecutionResult}
+                onCodeChange={setGeneratedCode}
+                onAddToPipeline={(step) => setPipelineSteps(steps => [...steps, step])}
                 data-testid="generated-code-section"
               />
             )}
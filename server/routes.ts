@@ -1,12 +1,29 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth, requireAuth } from "./auth";
 import multer from "multer";
 import { randomUUID } from "crypto";
-import { processFile, createDownloadBuffer } from "./services/fileProcessor";
-import { generatePandasCode } from "./services/gemini";
-import { executePandasCode } from "./services/pythonExecutor";
-import { insertUploadSchema, insertPlaybookSchema, insertRunSchema } from "@shared/schema";
+import { processFile, processSheet, loadRawSheetRows } from "./services/fileProcessor";
+import { generatePandasCode } from "./services/codeGeneration";
+import { runQueue, autoFixMaxAttempts } from "./services/runQueue";
+import { pythonWorkerPool } from "./services/pythonWorkerPool";
+import { blobStore, BlobNotFoundError } from "./services/blobStore";
+import { openRunResult, isResultFormat, RESULT_CONTENT_TYPES } from "./services/resultStore";
+import { diffLines, diffParameters } from "./services/codeDiff";
+import { validateParameters } from "./services/parameterValidation";
+import { analyzeCode, describeBlockingFindings } from "./services/codeAnalysis";
+import { buildConversationTurns } from "./services/conversations";
+import { resolvePipelineSteps, describePipelineCode } from "./services/pipelines";
+import { resolveInputSheets } from "./services/inputSheets";
+import { querySheetRows, forgetUploadRows, MAX_PAGE_ROWS } from "./services/sheetRows";
+import { detectInputColumns, suggestColumnMapping, resolveColumnMapping, renamedColumnNames } from "./services/columnMapping";
+import { 
+  insertUploadSchema, insertPlaybookSchema, updatePlaybookSchema, insertRunSchema, insertWorkspaceSchema,
+  workspaceMemberInputSchema, workspaceRoles, insertPipelineSchema, updatePipelineSchema, pipelineRunSchema,
+  inputSheetsSchema, sheetParseOptionsSchema, type Run
+} from "@shared/schema";
+import { canAccessPlaybook, canManageWorkspace, canShareIntoWorkspace } from "@shared/permissions";
 
 // Configure multer for file uploads
 const upload = multer({
@@ -29,7 +46,50 @@ const upload = multer({
   }
 });
 
+function toRunResponse(run: Run) {
+  return {
+    runId: run.id,
+    status: run.status,
+    success: run.status === 'completed',
+    summary: run.resultSummary ?? undefined,
+    error: run.errorMessage ?? undefined,
+    downloadUrl: run.status === 'completed' ? `/api/download/${run.id}` : undefined,
+    progress: runQueue.getProgress(run.id),
+    playbookId: run.playbookId ?? undefined,
+    playbookVersionId: run.playbookVersionId ?? undefined,
+    attempt: run.attempt,
+    previousRunId: run.previousRunId ?? undefined,
+    nextRunId: run.nextRunId ?? undefined,
+    pipelineId: run.pipelineId ?? undefined,
+    stepResults: run.stepResults ?? undefined,
+    inputSheets: run.inputSheets ?? undefined,
+    executionTimeMs: run.executionTimeMs ?? undefined,
+    createdAt: run.createdAt,
+    completedAt: run.completedAt ?? undefined
+  };
+}
+
+async function isLastOwner(workspaceId: string): Promise<boolean> {
+  const members = await storage.getWorkspaceMembers(workspaceId);
+  return members.filter(member => member.role === 'owner').length <= 1;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and the /api/register, /api/login, /api/logout and /api/user routes
+  setupAuth(app);
+  
+  // Everything else under /api belongs to the signed-in user
+  app.use("/api", requireAuth);
+
+  // Runs queued by a previous process will never be picked up again
+  const interrupted = await storage.failInterruptedRuns("Interrupted by a server restart");
+  if (interrupted > 0) {
+    console.warn(`Marked ${interrupted} interrupted run(s) as failed`);
+  }
+
+  // Start the Python workers now so the first run does not pay for interpreter startup
+  pythonWorkerPool.warmUp();
+
   // File upload endpoint
   app.post("/api/upload", upload.single('file'), async (req, res) => {
     try {
@@ -42,16 +102,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Process the file
       const processedFile = await processFile(buffer, originalname);
       
+      // Keep the original bytes so the full workbook can be read again later
+      const s3Key = `uploads/${randomUUID()}`;
+      await blobStore.put(s3Key, buffer, mimetype);
+      
       // Create upload record
       const uploadData = {
         filename: `${randomUUID()}_${originalname}`,
         originalName: originalname,
         fileSize: size,
         mimeType: mimetype,
-        s3Key: `uploads/${randomUUID()}`, // In production, actually upload to S3
+        s3Key,
         sheets: processedFile.sheets,
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours from now
-        userId: undefined // TODO: Get from session when auth is implemented
+        userId: req.user!.id
       };
 
       const upload = await storage.createUpload(uploadData);
@@ -73,7 +137,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get upload details
   app.get("/api/upload/:uploadId", async (req, res) => {
     try {
-      const upload = await storage.getUpload(req.params.uploadId);
+      const upload = await storage.getUpload(req.params.uploadId, req.user!.id);
       
       if (!upload) {
         return res.status(404).json({ message: "Upload not found" });
@@ -91,10 +155,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The user's uploads that have not expired, for picking extra input sheets
+  app.get("/api/uploads", async (req, res) => {
+    try {
+      const uploads = await storage.getActiveUploads(req.user!.id);
+      
+      res.json(uploads.map(upload => ({
+        uploadId: upload.id,
+        filename: upload.originalName,
+        sheets: upload.sheets.map(({ preview, ...sheet }) => sheet),
+        createdAt: upload.createdAt
+      })));
+    } catch (error) {
+      console.error("Get uploads error:", error);
+      res.status(500).json({ message: "Failed to retrieve uploads" });
+    }
+  });
+
   // Get sheet preview
   app.get("/api/upload/:uploadId/sheet/:sheetName", async (req, res) => {
     try {
-      const upload = await storage.getUpload(req.params.uploadId);
+      const upload = await storage.getUpload(req.params.uploadId, req.user!.id);
       
       if (!upload) {
         return res.status(404).json({ message: "Upload not found" });
@@ -113,16 +194,158 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Any range of the full sheet's rows, optionally filtered and sorted
+  app.get("/api/upload/:uploadId/sheet/:sheetName/rows", async (req, res) => {
+    try {
+      const { offset = '0', limit = '100', sort, order = 'asc', filters = '{}' } = req.query as Record<string, string>;
+      const upload = await storage.getUpload(req.params.uploadId, req.user!.id);
+      const sheet = upload?.sheets.find(s => s.name === req.params.sheetName);
+      
+      if (!upload || !sheet) {
+        return res.status(404).json({ message: "Sheet not found" });
+      }
+      
+      const start = parseInt(offset, 10);
+      const count = parseInt(limit, 10);
+      
+      if (isNaN(start) || start < 0 || isNaN(count) || count < 1 || count > MAX_PAGE_ROWS) {
+        return res.status(400).json({ message: `offset must be 0 or more and limit between 1 and ${MAX_PAGE_ROWS}` });
+      }
+      
+      if (order !== 'asc' && order !== 'desc') {
+        return res.status(400).json({ message: "order must be asc or desc" });
+      }
+      
+      const columnNames = sheet.columns.map(column => column.name);
+      
+      if (sort && !columnNames.includes(sort)) {
+        return res.status(400).json({ message: `Unknown sort column "${sort}"` });
+      }
+      
+      // Column -> filter expression, as JSON so any column name can be used
+      let parsedFilters: Record<string, string>;
+      try {
+        parsedFilters = JSON.parse(filters);
+      } catch {
+        return res.status(400).json({ message: "filters must be a JSON object" });
+      }
+      
+      if (!parsedFilters || typeof parsedFilters !== 'object' || Array.isArray(parsedFilters)
+        || Object.entries(parsedFilters).some(([column, value]) => !columnNames.includes(column) || typeof value !== 'string')) {
+        return res.status(400).json({ message: "filters must map sheet columns to text" });
+      }
+      
+      const page = await querySheetRows(upload, sheet, {
+        offset: start,
+        limit: count,
+        sort: sort || undefined,
+        order,
+        filters: parsedFilters
+      });
+      res.json(page);
+    } catch (error) {
+      console.error("Get sheet rows error:", error);
+      res.status(500).json({ message: "Failed to retrieve sheet rows" });
+    }
+  });
+
+  // The sheet's first rows as written, before any header is applied, for picking the header row
+  app.get("/api/upload/:uploadId/sheet/:sheetName/raw-rows", async (req, res) => {
+    try {
+      const limit = parseInt((req.query.limit as string) || '20', 10);
+      const upload = await storage.getUpload(req.params.uploadId, req.user!.id);
+      const sheet = upload?.sheets.find(s => s.name === req.params.sheetName);
+      
+      if (!upload || !sheet) {
+        return res.status(404).json({ message: "Sheet not found" });
+      }
+      
+      if (isNaN(limit) || limit < 1 || limit > 100) {
+        return res.status(400).json({ message: "limit must be between 1 and 100" });
+      }
+      
+      const buffer = await blobStore.get(upload.s3Key);
+      res.json(await loadRawSheetRows(buffer, upload.originalName, sheet.name, limit));
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        return res.status(404).json({ message: "Uploaded file not found" });
+      }
+      console.error("Get raw sheet rows error:", error);
+      res.status(500).json({ message: "Failed to retrieve sheet rows" });
+    }
+  });
+
+  // Re-reads a sheet from the stored file with the user's header row, skipped rows
+  // and column types, and saves it over the detected columns, preview and profile.
+  // Runs of the sheet then pass the typed columns to pandas as explicit dtypes.
+  app.put("/api/upload/:uploadId/sheet/:sheetName/parse-options", async (req, res) => {
+    try {
+      const parsed = sheetParseOptionsSchema.safeParse(req.body);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues.map(issue => issue.message).join(", ") });
+      }
+      
+      const upload = await storage.getUpload(req.params.uploadId, req.user!.id);
+      const sheet = upload?.sheets.find(s => s.name === req.params.sheetName);
+      
+      if (!upload || !sheet) {
+        return res.status(404).json({ message: "Sheet not found" });
+      }
+      
+      const options = parsed.data;
+      const buffer = await blobStore.get(upload.s3Key);
+      const updated = await processSheet(buffer, upload.originalName, sheet.name, options);
+      
+      if (!updated) {
+        return res.status(400).json({ message: `Row ${options.headerRow + 1} is empty and cannot be the header` });
+      }
+      
+      // Types are keyed by column name, so they must name columns under the chosen header
+      const unknownColumns = Object.keys(options.columnTypes)
+        .filter(name => !updated.columns.some(column => column.name === name));
+      
+      if (unknownColumns.length > 0) {
+        return res.status(400).json({ message: `Unknown columns: ${unknownColumns.join(", ")}` });
+      }
+      
+      const sheets = upload.sheets.map(s => s.name === sheet.name ? updated : s);
+      await storage.updateUploadSheets(upload.id, sheets);
+      forgetUploadRows(upload.id);
+      
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        return res.status(404).json({ message: "Uploaded file not found" });
+      }
+      console.error("Update sheet parse options error:", error);
+      res.status(500).json({ message: "Failed to re-read sheet" });
+    }
+  });
+
   // Generate code from natural language
   app.post("/api/generate-code", async (req, res) => {
     try {
-      const { uploadId, sheetName, nlInstruction } = req.body;
+      const { uploadId, sheetName, nlInstruction, conversationId } = req.body;
       
       if (!uploadId || !sheetName || !nlInstruction) {
         return res.status(400).json({ message: "Missing required fields" });
       }
       
-      const upload = await storage.getUpload(uploadId);
+      const parsedInputs = inputSheetsSchema.safeParse(req.body.inputSheets);
+      
+      if (!parsedInputs.success) {
+        return res.status(400).json({ message: parsedInputs.error.issues.map(issue => issue.message).join(", ") });
+      }
+      
+      // Other sheets, of this or other uploads, the code can join or append
+      const inputSheets = await resolveInputSheets(parsedInputs.data, req.user!.id);
+      
+      if (!inputSheets.success) {
+        return res.status(404).json({ message: "Input sheet not found", inputErrors: inputSheets.errors });
+      }
+      
+      const upload = await storage.getUpload(uploadId, req.user!.id);
       
       if (!upload) {
         return res.status(404).json({ message: "Upload not found" });
@@ -134,9 +357,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Sheet not found" });
       }
       
-      const result = await generatePandasCode(nlInstruction, sheet.columns, sheet.preview);
+      // Follow-ups carry the earlier turns so the model edits the previous code
+      let conversation = conversationId
+        ? await storage.getConversation(conversationId, req.user!.id)
+        : undefined;
+      
+      if (conversationId && !conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      if (conversation && (conversation.uploadId !== uploadId || conversation.sheetName !== sheetName)) {
+        return res.status(400).json({ message: "Conversation belongs to a different sheet" });
+      }
+      
+      const history = conversation
+        ? buildConversationTurns(
+            await storage.getConversationMessages(conversation.id),
+            await storage.getConversationRuns(conversation.id, req.user!.id)
+          )
+        : [];
+      
+      const inputs = inputSheets.sheets.map(({ input, sheet }) => ({
+        name: input.name,
+        columns: sheet.columns,
+        preview: sheet.preview
+      }));
+      const result = await generatePandasCode(nlInstruction, sheet.columns, sheet.preview, history, inputs);
+      const analysis = await analyzeCode(result.code, [
+        ...sheet.columns.map(column => column.name),
+        ...inputs.flatMap(input => input.columns.map(column => column.name))
+      ]);
+      
+      if (!conversation) {
+        conversation = await storage.createConversation({
+          userId: req.user!.id,
+          uploadId,
+          sheetName,
+          title: nlInstruction.slice(0, 100)
+        });
+      }
+      
+      await storage.addConversationMessages(conversation.id, [
+        { role: 'user', content: nlInstruction },
+        {
+          role: 'assistant',
+          content: result.explanation,
+          generatedCode: result.code,
+          confidence: result.confidence,
+          parameters: result.parameters
+        }
+      ]);
       
-      res.json(result);
+      res.json({ ...result, analysis, conversationId: conversation.id });
     } catch (error) {
       console.error("Code generation error:", error);
       res.status(500).json({ 
@@ -149,13 +421,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Execute generated code
   app.post("/api/run", async (req, res) => {
     try {
-      const { uploadId, sheetName, code, parameters, nlInstruction } = req.body;
+      const { uploadId, sheetName, code, parameters, nlInstruction, autoFix, maxAttempts, conversationId } = req.body;
       
       if (!uploadId || !sheetName || !code || !nlInstruction) {
         return res.status(400).json({ message: "Missing required fields" });
       }
       
-      const upload = await storage.getUpload(uploadId);
+      if (conversationId && !(await storage.getConversation(conversationId, req.user!.id))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      const parsedInputs = inputSheetsSchema.safeParse(req.body.inputSheets);
+      
+      if (!parsedInputs.success) {
+        return res.status(400).json({ message: parsedInputs.error.issues.map(issue => issue.message).join(", ") });
+      }
+      
+      const inputSheets = await resolveInputSheets(parsedInputs.data, req.user!.id);
+      
+      if (!inputSheets.success) {
+        return res.status(404).json({ message: "Input sheet not found", inputErrors: inputSheets.errors });
+      }
+      
+      const upload = await storage.getUpload(uploadId, req.user!.id);
       
       if (!upload) {
         return res.status(404).json({ message: "Upload not found" });
@@ -167,42 +455,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Sheet not found" });
       }
       
-      // Create run record
+      // Never execute code that fails the static safety checks
+      const analysis = await analyzeCode(code, [
+        ...sheet.columns.map(column => column.name),
+        ...inputSheets.sheets.flatMap(({ sheet }) => sheet.columns.map(column => column.name))
+      ]);
+      
+      if (!analysis.safe) {
+        return res.status(400).json({
+          message: `Code failed safety checks: ${describeBlockingFindings(analysis)}`,
+          findings: analysis.findings
+        });
+      }
+      
+      // An explicit 0 turns auto-fix off; a missing or invalid count gets the default
+      const requestedAttempts = parseInt(maxAttempts, 10);
+      
+      // Create run record; the run queue picks it up from here
       const runData = {
         uploadId,
         sheetName,
         nlInstruction,
         generatedCode: code,
         parameters: parameters || {},
-        status: 'running',
-        userId: undefined // TODO: Get from session when auth is implemented
+        conversationId: conversationId || null,
+        inputSheets: parsedInputs.data.length > 0 ? parsedInputs.data : null,
+        status: 'pending',
+        userId: req.user!.id
       };
       
       const run = await storage.createRun(runData);
-      
-      // Execute code
-      const executionResult = await executePandasCode(code, sheet.preview, parameters);
-      
-      if (executionResult.success) {
-        await storage.updateRunStatus(run.id, 'completed', {
-          summary: executionResult.summary,
-          s3Key: `results/${randomUUID()}`, // In production, upload result to S3
-          executionTime: executionResult.executionTime
-        });
-      } else {
-        await storage.updateRunStatus(run.id, 'failed', {
-          error: executionResult.error,
-          executionTime: executionResult.executionTime
-        });
-      }
-      
-      res.json({
+      runQueue.enqueue({
         runId: run.id,
-        success: executionResult.success,
-        summary: executionResult.summary,
-        error: executionResult.error,
-        downloadUrl: executionResult.success ? `/api/download/${run.id}` : undefined
+        userId: req.user!.id,
+        uploadId,
+        sheetName,
+        code,
+        parameters: parameters || {},
+        inputSheets: parsedInputs.data,
+        // With auto-fix on, a failed run is repaired and retried as a linked run
+        autoFixAttempts: autoFix
+          ? Math.max(0, Math.min(Number.isFinite(requestedAttempts) ? requestedAttempts : autoFixMaxAttempts, autoFixMaxAttempts))
+          : 0
       });
+      
+      res.status(202).json(toRunResponse(run));
     } catch (error) {
       console.error("Run execution error:", error);
       res.status(500).json({ 
@@ -216,39 +513,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/download/:runId", async (req, res) => {
     try {
       const { format = 'xlsx' } = req.query;
-      const run = await storage.getRun(req.params.runId);
-      
-      if (!run || run.status !== 'completed' || !run.resultSummary) {
-        return res.status(404).json({ message: "Results not found" });
-      }
       
-      // In production, download from S3 using resultS3Key
-      // For now, recreate from summary data
-      const upload = await storage.getUpload(run.uploadId);
-      const sheet = upload?.sheets.find(s => s.name === run.sheetName);
-      
-      if (!sheet) {
-        return res.status(404).json({ message: "Original data not found" });
+      if (!isResultFormat(format)) {
+        return res.status(400).json({ message: "Unsupported download format" });
       }
       
-      // Re-execute to get full results (in production, store full results)
-      const executionResult = await executePandasCode(
-        run.generatedCode, 
-        sheet.preview, 
-        run.parameters || {}
-      );
+      const run = await storage.getRun(req.params.runId, req.user!.id);
       
-      if (!executionResult.success || !executionResult.data) {
-        return res.status(500).json({ message: "Failed to generate download" });
+      if (!run || run.status !== 'completed' || !run.resultS3Key) {
+        return res.status(404).json({ message: "Results not found" });
       }
       
-      const buffer = createDownloadBuffer(executionResult.data, format as 'xlsx' | 'csv');
+      const stream = await openRunResult(run.resultS3Key, format);
       const filename = `results_${run.id}.${format}`;
       
       res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-      res.send(buffer);
+      res.setHeader('Content-Type', RESULT_CONTENT_TYPES[format]);
+      stream.on('error', (error) => {
+        console.error("Download stream error:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
     } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        return res.status(404).json({ message: "Results not found" });
+      }
       console.error("Download error:", error);
       res.status(500).json({ message: "Download failed" });
     }
@@ -257,7 +546,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Playbook management
   app.post("/api/playbooks", async (req, res) => {
     try {
-      const playbookData = insertPlaybookSchema.parse(req.body);
+      const { uploadId, sheetName, ...fields } = req.body;
+      
+      // Remember the columns of the sheet the code was written against so later
+      // runs on differently named exports can be mapped back onto them
+      const upload = uploadId ? await storage.getUpload(uploadId, req.user!.id) : undefined;
+      const sheet = upload?.sheets.find(s => s.name === sheetName);
+      const inputColumns = sheet ? detectInputColumns(fields.generatedCode || '', sheet.columns) : [];
+      
+      const playbookData = insertPlaybookSchema.parse({ ...fields, inputColumns, userId: req.user!.id });
       const playbook = await storage.createPlaybook(playbookData);
       res.json(playbook);
     } catch (error) {
@@ -271,7 +568,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/playbooks", async (req, res) => {
     try {
-      const playbooks = await storage.getPlaybooks();
+      const playbooks = await storage.getPlaybooks(req.user!.id);
       res.json(playbooks);
     } catch (error) {
       console.error("Get playbooks error:", error);
@@ -279,85 +576,589 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every edit creates a new immutable version
+  app.put("/api/playbooks/:id", async (req, res) => {
+    try {
+      const playbook = await storage.getPlaybook(req.params.id, req.user!.id);
+      
+      if (!playbook) {
+        return res.status(404).json({ message: "Playbook not found" });
+      }
+      
+      if (!canAccessPlaybook(playbook.accessRole, 'edit')) {
+        return res.status(403).json({ message: "You do not have permission to edit this playbook" });
+      }
+      
+      const parsed = updatePlaybookSchema.safeParse(req.body);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: "Invalid playbook", 
+          error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(", ") 
+        });
+      }
+      
+      const { playbook: updated, version } = await storage.updatePlaybook(playbook.id, parsed.data, req.user!.id);
+      res.json({ ...updated, accessRole: playbook.accessRole, version });
+    } catch (error) {
+      console.error("Update playbook error:", error);
+      res.status(500).json({ message: "Failed to update playbook" });
+    }
+  });
+
+  app.get("/api/playbooks/:id/versions", async (req, res) => {
+    try {
+      const playbook = await storage.getPlaybook(req.params.id, req.user!.id);
+      
+      if (!playbook) {
+        return res.status(404).json({ message: "Playbook not found" });
+      }
+      
+      const versions = await storage.getPlaybookVersions(playbook.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Get playbook versions error:", error);
+      res.status(500).json({ message: "Failed to retrieve playbook versions" });
+    }
+  });
+
+  app.get("/api/playbooks/:id/diff", async (req, res) => {
+    try {
+      const from = parseInt(req.query.from as string, 10);
+      const to = parseInt(req.query.to as string, 10);
+      
+      if (isNaN(from) || isNaN(to)) {
+        return res.status(400).json({ message: "Both from and to versions are required" });
+      }
+      
+      const playbook = await storage.getPlaybook(req.params.id, req.user!.id);
+      
+      if (!playbook) {
+        return res.status(404).json({ message: "Playbook not found" });
+      }
+      
+      const [fromVersion, toVersion] = await Promise.all([
+        storage.getPlaybookVersion(playbook.id, from),
+        storage.getPlaybookVersion(playbook.id, to)
+      ]);
+      
+      if (!fromVersion || !toVersion) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      
+      res.json({
+        from: fromVersion.version,
+        to: toVersion.version,
+        nlInstruction: fromVersion.nlInstruction === toVersion.nlInstruction
+          ? undefined
+          : { before: fromVersion.nlInstruction, after: toVersion.nlInstruction },
+        code: diffLines(fromVersion.generatedCode, toVersion.generatedCode),
+        parameters: diffParameters(fromVersion.parameters, toVersion.parameters)
+      });
+    } catch (error) {
+      console.error("Diff playbook versions error:", error);
+      res.status(500).json({ message: "Failed to diff playbook versions" });
+    }
+  });
+
+  // Rolling back never rewrites history: the old version is copied into a new one
+  app.post("/api/playbooks/:id/rollback", async (req, res) => {
+    try {
+      const targetVersion = parseInt(req.body.version, 10);
+      const playbook = await storage.getPlaybook(req.params.id, req.user!.id);
+      
+      if (!playbook) {
+        return res.status(404).json({ message: "Playbook not found" });
+      }
+      
+      if (!canAccessPlaybook(playbook.accessRole, 'edit')) {
+        return res.status(403).json({ message: "You do not have permission to edit this playbook" });
+      }
+      
+      const target = isNaN(targetVersion) ? undefined : await storage.getPlaybookVersion(playbook.id, targetVersion);
+      
+      if (!target) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      
+      const { playbook: updated, version } = await storage.updatePlaybook(playbook.id, {
+        nlInstruction: target.nlInstruction,
+        generatedCode: target.generatedCode,
+        parameters: target.parameters,
+        changeNote: `Rolled back to version ${target.version}`
+      }, req.user!.id);
+      res.json({ ...updated, accessRole: playbook.accessRole, version });
+    } catch (error) {
+      console.error("Rollback playbook error:", error);
+      res.status(500).json({ message: "Failed to roll back playbook" });
+    }
+  });
+
+  // Share a playbook to a workspace, or make it private again with workspaceId: null
+  app.put("/api/playbooks/:id/workspace", async (req, res) => {
+    try {
+      const { workspaceId } = req.body as { workspaceId: string | null };
+      const playbook = await storage.getPlaybook(req.params.id, req.user!.id);
+      
+      if (!playbook) {
+        return res.status(404).json({ message: "Playbook not found" });
+      }
+      
+      if (!canAccessPlaybook(playbook.accessRole, 'share')) {
+        return res.status(403).json({ message: "You do not have permission to share this playbook" });
+      }
+      
+      if (workspaceId) {
+        const membership = await storage.getWorkspaceMembership(workspaceId, req.user!.id);
+        
+        if (!membership || !canShareIntoWorkspace(membership.role)) {
+          return res.status(403).json({ message: "You cannot share playbooks into this workspace" });
+        }
+      }
+      
+      await storage.setPlaybookWorkspace(playbook.id, workspaceId || null);
+      res.json(await storage.getPlaybook(playbook.id, req.user!.id));
+    } catch (error) {
+      console.error("Share playbook error:", error);
+      res.status(500).json({ message: "Failed to share playbook" });
+    }
+  });
+
+  // Suggested sheet columns for each input column the playbook was saved with
+  app.get("/api/playbooks/:id/column-mapping", async (req, res) => {
+    try {
+      const playbook = await storage.getPlaybook(req.params.id, req.user!.id);
+      
+      if (!playbook) {
+        return res.status(404).json({ message: "Playbook not found" });
+      }
+      
+      const upload = await storage.getUpload(req.query.uploadId as string, req.user!.id);
+      const sheet = upload?.sheets.find(s => s.name === req.query.sheetName);
+      
+      if (!sheet) {
+        return res.status(404).json({ message: "Sheet not found" });
+      }
+      
+      const inputColumns = detectInputColumns(playbook.generatedCode, playbook.inputColumns);
+      res.json({
+        inputColumns,
+        suggestions: suggestColumnMapping(inputColumns, sheet.columns)
+      });
+    } catch (error) {
+      console.error("Column mapping error:", error);
+      res.status(500).json({ message: "Failed to suggest a column mapping" });
+    }
+  });
+
   app.post("/api/playbooks/:id/run", async (req, res) => {
     try {
-      const { uploadId, sheetName, parameterMapping } = req.body;
-      const playbook = await storage.getPlaybook(req.params.id);
+      const { uploadId, sheetName, parameterMapping, columnMapping } = req.body;
+      const playbook = await storage.getPlaybook(req.params.id, req.user!.id);
       
       if (!playbook) {
         return res.status(404).json({ message: "Playbook not found" });
       }
       
-      // Apply parameter mapping to the code
-      let modifiedCode = playbook.generatedCode;
-      if (parameterMapping) {
-        Object.entries(parameterMapping).forEach(([param, value]) => {
-          modifiedCode = modifiedCode.replace(
-            new RegExp(param, 'g'), 
-            JSON.stringify(value)
-          );
+      if (!canAccessPlaybook(playbook.accessRole, 'run')) {
+        return res.status(403).json({ message: "You do not have permission to run this playbook" });
+      }
+      
+      const upload = await storage.getUpload(uploadId, req.user!.id);
+      const sheet = upload?.sheets.find(s => s.name === sheetName);
+      
+      if (!sheet) {
+        return res.status(404).json({ message: "Sheet not found" });
+      }
+      
+      // Re-check against the current version's code which input columns it references
+      const inputColumns = detectInputColumns(playbook.generatedCode, playbook.inputColumns);
+      const sheetColumnNames = sheet.columns.map(column => column.name);
+      const mapping = resolveColumnMapping(inputColumns, columnMapping, sheetColumnNames);
+      
+      if (!mapping.success) {
+        return res.status(400).json({ message: "Unmapped columns", columnErrors: mapping.errors });
+      }
+      
+      // Values reach the code only through its parameters dict, never by rewriting the code
+      const validation = validateParameters(playbook.parameters, parameterMapping, {
+        columnNames: renamedColumnNames(sheetColumnNames, mapping.renames)
+      });
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid parameters", errors: validation.errors });
+      }
+      
+      const analysis = await analyzeCode(playbook.generatedCode, renamedColumnNames(sheetColumnNames, mapping.renames));
+      
+      if (!analysis.safe) {
+        return res.status(400).json({
+          message: `Playbook code failed safety checks: ${describeBlockingFindings(analysis)}`,
+          findings: analysis.findings
         });
       }
       
-      // Execute the playbook
+      // Record exactly which version of the playbook this run executed
+      const version = await storage.getPlaybookVersion(playbook.id, playbook.currentVersion);
+      
+      // Queue the playbook run
       const runData = {
         uploadId,
         playbookId: playbook.id,
+        playbookVersionId: version?.id,
         sheetName,
         nlInstruction: playbook.nlInstruction,
-        generatedCode: modifiedCode,
-        parameters: parameterMapping || {},
-        status: 'running',
-        userId: undefined
+        generatedCode: playbook.generatedCode,
+        parameters: validation.values,
+        columnMapping: mapping.renames,
+        status: 'pending',
+        userId: req.user!.id
       };
       
       const run = await storage.createRun(runData);
       await storage.incrementPlaybookUsage(playbook.id);
+      runQueue.enqueue({
+        runId: run.id,
+        userId: req.user!.id,
+        uploadId,
+        sheetName,
+        code: playbook.generatedCode,
+        parameters: validation.values,
+        columnRenames: mapping.renames
+      });
+      
+      res.status(202).json(toRunResponse(run));
+    } catch (error) {
+      console.error("Run playbook error:", error);
+      res.status(500).json({ 
+        message: "Playbook execution failed", 
+        error: (error as Error).message 
+      });
+    }
+  });
+
+  // Pipelines
+  app.get("/api/pipelines", async (req, res) => {
+    try {
+      const pipelines = await storage.getPipelines(req.user!.id);
+      res.json(pipelines);
+    } catch (error) {
+      console.error("Get pipelines error:", error);
+      res.status(500).json({ message: "Failed to retrieve pipelines" });
+    }
+  });
+
+  app.post("/api/pipelines", async (req, res) => {
+    try {
+      const parsed = insertPipelineSchema.safeParse({ ...req.body, userId: req.user!.id });
       
-      // Execute and return result (similar to /api/run)
-      const upload = await storage.getUpload(uploadId);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: "Invalid pipeline", 
+          error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(", ") 
+        });
+      }
+      
+      const pipeline = await storage.createPipeline(parsed.data);
+      res.status(201).json(pipeline);
+    } catch (error) {
+      console.error("Create pipeline error:", error);
+      res.status(500).json({ message: "Failed to create pipeline" });
+    }
+  });
+
+  app.get("/api/pipelines/:id", async (req, res) => {
+    try {
+      const pipeline = await storage.getPipeline(req.params.id, req.user!.id);
+      
+      if (!pipeline) {
+        return res.status(404).json({ message: "Pipeline not found" });
+      }
+      
+      res.json(pipeline);
+    } catch (error) {
+      console.error("Get pipeline error:", error);
+      res.status(500).json({ message: "Failed to retrieve pipeline" });
+    }
+  });
+
+  app.put("/api/pipelines/:id", async (req, res) => {
+    try {
+      const pipeline = await storage.getPipeline(req.params.id, req.user!.id);
+      
+      if (!pipeline) {
+        return res.status(404).json({ message: "Pipeline not found" });
+      }
+      
+      const parsed = updatePipelineSchema.safeParse(req.body);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: "Invalid pipeline", 
+          error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(", ") 
+        });
+      }
+      
+      const updated = await storage.updatePipeline(pipeline.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Update pipeline error:", error);
+      res.status(500).json({ message: "Failed to update pipeline" });
+    }
+  });
+
+  app.delete("/api/pipelines/:id", async (req, res) => {
+    try {
+      const pipeline = await storage.getPipeline(req.params.id, req.user!.id);
+      
+      if (!pipeline) {
+        return res.status(404).json({ message: "Pipeline not found" });
+      }
+      
+      await storage.deletePipeline(pipeline.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Delete pipeline error:", error);
+      res.status(500).json({ message: "Failed to delete pipeline" });
+    }
+  });
+
+  // Runs the given steps, saved or not, as one run; each step's output feeds the next
+  app.post("/api/pipelines/run", async (req, res) => {
+    try {
+      const parsed = pipelineRunSchema.safeParse(req.body);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: "Invalid pipeline", 
+          error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(", ") 
+        });
+      }
+      
+      const { uploadId, sheetName, steps, pipelineId, inputSheets } = parsed.data;
+      const pipeline = pipelineId ? await storage.getPipeline(pipelineId, req.user!.id) : undefined;
+      
+      if (pipelineId && !pipeline) {
+        return res.status(404).json({ message: "Pipeline not found" });
+      }
+      
+      if (!steps.some(step => step.enabled)) {
+        return res.status(400).json({ message: "Enable at least one step" });
+      }
+      
+      const upload = await storage.getUpload(uploadId, req.user!.id);
       const sheet = upload?.sheets.find(s => s.name === sheetName);
       
       if (!sheet) {
         return res.status(404).json({ message: "Sheet not found" });
       }
       
-      const executionResult = await executePandasCode(modifiedCode, sheet.preview, parameterMapping);
+      const inputs = await resolveInputSheets(inputSheets, req.user!.id);
       
-      if (executionResult.success) {
-        await storage.updateRunStatus(run.id, 'completed', {
-          summary: executionResult.summary,
-          s3Key: `results/${randomUUID()}`,
-          executionTime: executionResult.executionTime
-        });
-      } else {
-        await storage.updateRunStatus(run.id, 'failed', {
-          error: executionResult.error,
-          executionTime: executionResult.executionTime
+      if (!inputs.success) {
+        return res.status(404).json({ message: "Input sheet not found", inputErrors: inputs.errors });
+      }
+      
+      const resolution = await resolvePipelineSteps(steps, req.user!.id, [
+        ...sheet.columns.map(column => column.name),
+        ...inputs.sheets.flatMap(({ sheet }) => sheet.columns.map(column => column.name))
+      ]);
+      
+      if (!resolution.success) {
+        return res.status(400).json({
+          message: resolution.errors.map(error => error.message).join("; "),
+          stepErrors: resolution.errors
         });
       }
       
-      res.json({
+      const code = describePipelineCode(resolution.steps);
+      const run = await storage.createRun({
+        uploadId,
+        sheetName,
+        pipelineId: pipeline?.id ?? null,
+        nlInstruction: `Pipeline: ${pipeline?.name ?? `${steps.length} step(s)`}`,
+        generatedCode: code,
+        parameters: {},
+        inputSheets: inputSheets.length > 0 ? inputSheets : null,
+        status: 'pending',
+        userId: req.user!.id
+      });
+      runQueue.enqueue({
         runId: run.id,
-        success: executionResult.success,
-        summary: executionResult.summary,
-        error: executionResult.error,
-        downloadUrl: executionResult.success ? `/api/download/${run.id}` : undefined
+        userId: req.user!.id,
+        uploadId,
+        sheetName,
+        code,
+        parameters: {},
+        inputSheets,
+        pipelineSteps: resolution.steps
       });
+      
+      res.status(202).json(toRunResponse(run));
     } catch (error) {
-      console.error("Run playbook error:", error);
+      console.error("Run pipeline error:", error);
       res.status(500).json({ 
-        message: "Playbook execution failed", 
+        message: "Pipeline execution failed", 
         error: (error as Error).message 
       });
     }
   });
 
+  // Workspaces
+  app.get("/api/workspaces", async (req, res) => {
+    try {
+      const workspaces = await storage.getWorkspaces(req.user!.id);
+      res.json(workspaces);
+    } catch (error) {
+      console.error("Get workspaces error:", error);
+      res.status(500).json({ message: "Failed to retrieve workspaces" });
+    }
+  });
+
+  app.post("/api/workspaces", async (req, res) => {
+    try {
+      const parsed = insertWorkspaceSchema.safeParse(req.body);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: "Invalid workspace", 
+          error: parsed.error.issues.map(issue => issue.message).join(", ") 
+        });
+      }
+      
+      const workspace = await storage.createWorkspace(parsed.data, req.user!.id);
+      res.status(201).json({ ...workspace, role: 'owner' });
+    } catch (error) {
+      console.error("Create workspace error:", error);
+      res.status(500).json({ message: "Failed to create workspace" });
+    }
+  });
+
+  app.get("/api/workspaces/:id/members", async (req, res) => {
+    try {
+      const membership = await storage.getWorkspaceMembership(req.params.id, req.user!.id);
+      
+      if (!membership) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      
+      const members = await storage.getWorkspaceMembers(req.params.id);
+      res.json(members);
+    } catch (error) {
+      console.error("Get workspace members error:", error);
+      res.status(500).json({ message: "Failed to retrieve workspace members" });
+    }
+  });
+
+  app.post("/api/workspaces/:id/members", async (req, res) => {
+    try {
+      const membership = await storage.getWorkspaceMembership(req.params.id, req.user!.id);
+      
+      if (!membership) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      
+      if (!canManageWorkspace(membership.role)) {
+        return res.status(403).json({ message: "Only workspace owners can add members" });
+      }
+      
+      const parsed = workspaceMemberInputSchema.safeParse(req.body);
+      
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid member details" });
+      }
+      
+      const user = await storage.getUserByUsername(parsed.data.username);
+      
+      if (!user) {
+        return res.status(404).json({ message: `No user named "${parsed.data.username}"` });
+      }
+      
+      if (await storage.getWorkspaceMembership(req.params.id, user.id)) {
+        return res.status(409).json({ message: `${user.username} is already a member` });
+      }
+      
+      const member = await storage.addWorkspaceMember(req.params.id, user.id, parsed.data.role);
+      res.status(201).json({ ...member, username: user.username });
+    } catch (error) {
+      console.error("Add workspace member error:", error);
+      res.status(500).json({ message: "Failed to add workspace member" });
+    }
+  });
+
+  app.patch("/api/workspaces/:id/members/:userId", async (req, res) => {
+    try {
+      const { role } = req.body;
+      const membership = await storage.getWorkspaceMembership(req.params.id, req.user!.id);
+      
+      if (!membership) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      
+      if (!canManageWorkspace(membership.role)) {
+        return res.status(403).json({ message: "Only workspace owners can change roles" });
+      }
+      
+      if (!workspaceRoles.includes(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+      
+      const target = await storage.getWorkspaceMembership(req.params.id, req.params.userId);
+      
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      
+      if (target.role === 'owner' && role !== 'owner' && await isLastOwner(req.params.id)) {
+        return res.status(400).json({ message: "A workspace must keep at least one owner" });
+      }
+      
+      await storage.updateWorkspaceMemberRole(req.params.id, req.params.userId, role);
+      res.json({ ...target, role });
+    } catch (error) {
+      console.error("Update workspace member error:", error);
+      res.status(500).json({ message: "Failed to update workspace member" });
+    }
+  });
+
+  // Owners can remove anyone; any member can leave
+  app.delete("/api/workspaces/:id/members/:userId", async (req, res) => {
+    try {
+      const membership = await storage.getWorkspaceMembership(req.params.id, req.user!.id);
+      
+      if (!membership) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      
+      const isSelf = req.params.userId === req.user!.id;
+      
+      if (!isSelf && !canManageWorkspace(membership.role)) {
+        return res.status(403).json({ message: "Only workspace owners can remove members" });
+      }
+      
+      const target = await storage.getWorkspaceMembership(req.params.id, req.params.userId);
+      
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      
+      if (target.role === 'owner' && await isLastOwner(req.params.id)) {
+        return res.status(400).json({ message: "A workspace must keep at least one owner" });
+      }
+      
+      await storage.removeWorkspaceMember(req.params.id, req.params.userId);
+      res.json({ message: "Member removed" });
+    } catch (error) {
+      console.error("Remove workspace member error:", error);
+      res.status(500).json({ message: "Failed to remove workspace member" });
+    }
+  });
+
   // Activity log
   app.get("/api/runs", async (req, res) => {
     try {
       const { limit = '10' } = req.query;
-      const runs = await storage.getRecentRuns(undefined, parseInt(limit as string));
+      const runs = await storage.getRecentRuns(req.user!.id, parseInt(limit as string));
       res.json(runs);
     } catch (error) {
       console.error("Get runs error:", error);
@@ -365,10 +1166,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // A conversation with its messages and the runs started from it
+  app.get("/api/conversations/:id", async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id, req.user!.id);
+      
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      
+      const messages = await storage.getConversationMessages(conversation.id);
+      const runs = await storage.getConversationRuns(conversation.id, req.user!.id);
+      
+      res.json({
+        ...conversation,
+        messages,
+        runs: runs.map(run => ({ ...toRunResponse(run), code: run.generatedCode }))
+      });
+    } catch (error) {
+      console.error("Get conversation error:", error);
+      res.status(500).json({ message: "Failed to retrieve conversation" });
+    }
+  });
+
+  // Run status polling
+  app.get("/api/runs/:id", async (req, res) => {
+    try {
+      const run = await storage.getRun(req.params.id, req.user!.id);
+      
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      
+      res.json(toRunResponse(run));
+    } catch (error) {
+      console.error("Get run error:", error);
+      res.status(500).json({ message: "Failed to retrieve run" });
+    }
+  });
+
+  // Every attempt of an auto-fix chain, with the diff from the original code to the latest fix
+  app.get("/api/runs/:id/attempts", async (req, res) => {
+    try {
+      const attempts = await storage.getRunAttempts(req.params.id, req.user!.id);
+      
+      if (attempts.length === 0) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      
+      const original = attempts[0];
+      const latest = attempts[attempts.length - 1];
+      
+      res.json({
+        attempts: attempts.map(attempt => ({ ...toRunResponse(attempt), code: attempt.generatedCode })),
+        diff: diffLines(original.generatedCode, latest.generatedCode)
+      });
+    } catch (error) {
+      console.error("Get run attempts error:", error);
+      res.status(500).json({ message: "Failed to retrieve run attempts" });
+    }
+  });
+
+  app.post("/api/runs/:id/cancel", async (req, res) => {
+    try {
+      const run = await storage.getRun(req.params.id, req.user!.id);
+      
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      
+      const cancelled = await runQueue.cancel(run.id);
+      
+      if (!cancelled) {
+        return res.status(409).json({ message: `Run is already ${run.status}` });
+      }
+      
+      const updatedRun = await storage.getRun(run.id, req.user!.id);
+      res.json(toRunResponse(updatedRun || run));
+    } catch (error) {
+      console.error("Cancel run error:", error);
+      res.status(500).json({ message: "Failed to cancel run" });
+    }
+  });
+
   // Delete upload
   app.delete("/api/upload/:uploadId", async (req, res) => {
     try {
-      await storage.markUploadDeleted(req.params.uploadId);
+      const upload = await storage.getUpload(req.params.uploadId, req.user!.id);
+      
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      
+      await blobStore.delete(upload.s3Key);
+      forgetUploadRows(upload.id);
+      await storage.markUploadDeleted(upload.id, req.user!.id);
       res.json({ message: "Upload deleted successfully" });
     } catch (error) {
       console.error("Delete upload error:", error);
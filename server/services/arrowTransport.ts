@@ -0,0 +1,98 @@
+import {
+  Table,
+  Type,
+  Bool,
+  Float64,
+  Int64,
+  Utf8,
+  TimestampMillisecond,
+  vectorFromArray,
+  tableToIPC,
+  tableFromIPC,
+  type Vector
+} from 'apache-arrow';
+
+function isPresent(value: unknown): boolean {
+  return value !== null && value !== undefined && !(typeof value === 'number' && isNaN(value));
+}
+
+// One typed Arrow column per sheet column; a column with mixed kinds of values
+// falls back to strings rather than failing the whole run
+function toVector(values: any[]): Vector {
+  const present = values.filter(isPresent);
+  const normalized = values.map(value => isPresent(value) ? value : null);
+
+  if (present.length > 0 && present.every(value => typeof value === 'boolean')) {
+    return vectorFromArray(normalized, new Bool());
+  }
+
+  if (present.length > 0 && present.every(value => typeof value === 'number')) {
+    if (present.every(value => Number.isSafeInteger(value))) {
+      return vectorFromArray(normalized.map(value => value === null ? null : BigInt(value)), new Int64());
+    }
+    return vectorFromArray(normalized, new Float64());
+  }
+
+  if (present.length > 0 && present.every(value => value instanceof Date)) {
+    return vectorFromArray(normalized.map(value => value === null ? null : value.getTime()), new TimestampMillisecond());
+  }
+
+  return vectorFromArray(normalized.map(value => value === null ? null : String(value)), new Utf8());
+}
+
+export function rowsToArrow(rows: Array<Record<string, any>>): Uint8Array {
+  const columnNames = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const columns: Record<string, Vector> = {};
+
+  for (const name of columnNames) {
+    columns[name] = toVector(rows.map(row => row[name]));
+  }
+
+  return tableToIPC(new Table(columns), 'stream');
+}
+
+function toJsValue(value: any, typeId: Type): any {
+  if (value === null || value === undefined) return null;
+
+  switch (typeId) {
+    case Type.Timestamp:
+    case Type.Date:
+      return new Date(value);
+    case Type.Int:
+      return typeof value === 'bigint' ? Number(value) : value;
+    case Type.Bool:
+    case Type.Float:
+    case Type.Utf8:
+    case Type.LargeUtf8:
+      return value;
+    default:
+      return typeof value === 'object' ? String(value) : value;
+  }
+}
+
+// Timestamps come back as Date objects and 64-bit integers as numbers
+export function arrowToRows(buffer: Uint8Array): Array<Record<string, any>> {
+  if (buffer.length === 0) return [];
+
+  const table = tableFromIPC(buffer);
+  const fields = table.schema.fields;
+  const columns = fields.map((field, index) => {
+    const vector = table.getChildAt(index)!;
+    const typeId = field.type.typeId === Type.Dictionary ? field.type.dictionary.typeId : field.type.typeId;
+    const values: any[] = new Array(vector.length);
+    for (let i = 0; i < vector.length; i++) {
+      values[i] = toJsValue(vector.get(i), typeId);
+    }
+    return values;
+  });
+
+  const rows: Array<Record<string, any>> = [];
+  for (let i = 0; i < table.numRows; i++) {
+    const row: Record<string, any> = {};
+    fields.forEach((field, index) => {
+      row[field.name] = columns[index][i];
+    });
+    rows.push(row);
+  }
+  return rows;
+}
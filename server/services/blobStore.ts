@@ -0,0 +1,164 @@
+import { promises as fs, createReadStream } from 'fs';
+import { dirname, join, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import 'dotenv/config';
+
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  createReadStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+export class BlobNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Blob not found: ${key}`);
+    this.name = 'BlobNotFoundError';
+  }
+}
+
+export class LocalBlobStore implements BlobStore {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = resolve(rootDir);
+  }
+
+  private pathFor(key: string): string {
+    const fullPath = resolve(this.rootDir, key);
+    // Keys come from our own code, but never let one escape the root directory
+    if (!fullPath.startsWith(this.rootDir + sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const fullPath = this.pathFor(key);
+    await fs.mkdir(dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new BlobNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string): Promise<Readable> {
+    const fullPath = this.pathFor(key);
+    try {
+      await fs.access(fullPath);
+    } catch {
+      throw new BlobNotFoundError(key);
+    }
+    return createReadStream(fullPath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+}
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  region?: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: S3BlobStoreOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region || 'us-east-1',
+      endpoint: options.endpoint,
+      // MinIO and most other S3-compatible servers only support path-style URLs
+      forcePathStyle: !!options.endpoint,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const stream = await this.createReadStream(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async createReadStream(key: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }));
+      return response.Body as Readable;
+    } catch (error) {
+      if ((error as Error).name === 'NoSuchKey') {
+        throw new BlobNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+  }
+}
+
+export function createBlobStore(): BlobStore {
+  const backend = process.env.BLOB_STORE || 'local';
+
+  if (backend === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when BLOB_STORE=s3");
+    }
+
+    return new S3BlobStore({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION,
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  if (backend === 'local') {
+    return new LocalBlobStore(process.env.BLOB_STORE_DIR || join(process.cwd(), 'data', 'blobs'));
+  }
+
+  throw new Error(`Unknown BLOB_STORE backend: ${backend}`);
+}
+
+export const blobStore = createBlobStore();
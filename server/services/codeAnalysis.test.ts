@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeCode } from './codeAnalysis';
+
+function unknownColumns(findings: Array<{ rule: string; message: string }>): string[] {
+  return findings.filter(finding => finding.rule === 'unknown-column').map(finding => finding.message);
+}
+
+test('lookups on the inputs dict are not column references', async () => {
+  const analysis = await analyzeCode(`
+def transform_data(df, inputs):
+    customers = inputs['customers']
+    merged = df.merge(customers[['CustomerId', 'Region']], on='CustomerId', how='left')
+    return merged[merged['Region'] == parameters['region']]
+`, ['OrderId', 'CustomerId', 'Region']);
+
+  assert.equal(analysis.safe, true);
+  assert.deepEqual(unknownColumns(analysis.findings), []);
+});
+
+test('columns of an input sheet still have to exist', async () => {
+  const analysis = await analyzeCode(`
+def transform_data(df, inputs):
+    return df.merge(inputs['customers'][['CustomerId', 'Segment']], on='CustomerId')
+`, ['OrderId', 'CustomerId', 'Region']);
+
+  assert.deepEqual(unknownColumns(analysis.findings), ["References column 'Segment', which is not in the sheet"]);
+});
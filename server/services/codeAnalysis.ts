@@ -0,0 +1,281 @@
+import { spawn } from 'child_process';
+import { ALLOWED_MODULES, PYTHON_ARGS, PYTHON_COMMAND, SANDBOX_ENV } from './pythonSandbox';
+
+export type FindingSeverity = 'blocking' | 'warning';
+
+export interface CodeFinding {
+  severity: FindingSeverity;
+  rule: string;
+  message: string;
+  line?: number;
+}
+
+export interface CodeAnalysis {
+  findings: CodeFinding[];
+  // True when nothing blocks the code from being executed
+  safe: boolean;
+}
+
+export class CodeAnalysisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodeAnalysisError';
+  }
+}
+
+const ANALYSIS_TIMEOUT_MS = 10000;
+
+// Walks the parsed code once; reads {code, columns, allowedModules} as JSON on
+// stdin and prints the findings as JSON on stdout. Only the stdlib is needed.
+const ANALYZER_SCRIPT = `
+import ast
+import json
+import sys
+
+RISKY_CALLS = {
+    'eval', 'exec', 'compile', 'open', '__import__', 'globals', 'locals', 'vars',
+    'input', 'breakpoint', 'memoryview', 'setattr', 'delattr',
+}
+FILE_WRITERS = {
+    'to_csv', 'to_excel', 'to_json', 'to_parquet', 'to_pickle', 'to_sql', 'to_hdf',
+    'to_feather', 'to_stata', 'to_html', 'to_xml', 'to_latex', 'to_markdown', 'to_orc',
+    'to_clipboard', 'tofile', 'save', 'savez', 'savez_compressed', 'savetxt',
+}
+COLUMN_KEYWORDS = {'columns', 'subset', 'by', 'on', 'left_on', 'right_on', 'index', 'values', 'id_vars', 'value_vars'}
+INFINITE_ITERATORS = {'count', 'cycle', 'repeat'}
+# Globals the sandbox provides; imported module names are added while walking
+SHARED_NAMES = {'pd', 'np', 'datetime', 'timedelta'}
+
+
+def string_values(node):
+    if isinstance(node, ast.Constant) and isinstance(node.value, str):
+        return [node.value]
+    if isinstance(node, (ast.List, ast.Tuple, ast.Set)):
+        values = []
+        for element in node.elts:
+            values.extend(string_values(element))
+        return values
+    return []
+
+
+def can_exit(loop):
+    # A break in a nested loop does not end this one; return and raise do
+    stack = list(loop.body)
+    while stack:
+        node = stack.pop()
+        if isinstance(node, ast.Break):
+            return True
+        if isinstance(node, (ast.For, ast.While, ast.AsyncFor, ast.FunctionDef, ast.AsyncFunctionDef, ast.Lambda)):
+            continue
+        if isinstance(node, (ast.Return, ast.Raise)):
+            return True
+        stack.extend(ast.iter_child_nodes(node))
+    return False
+
+
+def is_infinite_iterator(node):
+    # itertools.count(), itertools.cycle() and single-argument itertools.repeat()
+    if not isinstance(node, ast.Call):
+        return False
+    func = node.func
+    if isinstance(func, ast.Attribute) and not (isinstance(func.value, ast.Name) and func.value.id == 'itertools'):
+        return False
+    name = call_name(func)
+    if name not in INFINITE_ITERATORS:
+        return False
+    return name != 'repeat' or (len(node.args) < 2 and not node.keywords)
+
+
+def root_name(node):
+    while isinstance(node, (ast.Attribute, ast.Subscript, ast.Call)):
+        node = node.func if isinstance(node, ast.Call) else node.value
+    return node.id if isinstance(node, ast.Name) else None
+
+
+def call_name(func):
+    if isinstance(func, ast.Name):
+        return func.id
+    if isinstance(func, ast.Attribute):
+        return func.attr
+    return None
+
+
+class Analyzer(ast.NodeVisitor):
+    def __init__(self, allowed_modules):
+        self.allowed_modules = allowed_modules
+        self.findings = []
+        self.referenced_columns = {}
+        self.created_columns = set()
+        self.defines_transform = False
+        self.module_names = set(SHARED_NAMES)
+
+    def report(self, severity, rule, message, node):
+        self.findings.append({
+            'severity': severity,
+            'rule': rule,
+            'message': message,
+            'line': getattr(node, 'lineno', None),
+        })
+
+    def check_import(self, name, node):
+        if name.split('.')[0] not in self.allowed_modules:
+            self.report('blocking', 'disallowed-import', f"Imports '{name}', which is not an allowed module", node)
+
+    def visit_Import(self, node):
+        for alias in node.names:
+            self.check_import(alias.name, node)
+            self.module_names.add(alias.asname or alias.name.split('.')[0])
+        self.generic_visit(node)
+
+    def visit_ImportFrom(self, node):
+        if node.level:
+            self.report('blocking', 'disallowed-import', 'Relative imports are not allowed', node)
+        else:
+            self.check_import(node.module or '', node)
+        self.generic_visit(node)
+
+    def visit_FunctionDef(self, node):
+        if node.name == 'transform_data':
+            self.defines_transform = True
+        self.generic_visit(node)
+
+    def visit_Name(self, node):
+        if node.id.startswith('__') and node.id.endswith('__'):
+            self.report('blocking', 'dunder-access', f"Uses the special name '{node.id}'", node)
+        self.generic_visit(node)
+
+    def visit_Attribute(self, node):
+        if node.attr.startswith('__') and node.attr.endswith('__'):
+            self.report('blocking', 'dunder-access', f"Accesses the special attribute '{node.attr}'", node)
+        if isinstance(node.ctx, (ast.Store, ast.Del)) and root_name(node) in self.module_names:
+            # Python workers are reused, so patching a library would leak into later runs
+            self.report('blocking', 'shared-state', f"Modifies the shared module '{root_name(node)}'", node)
+        self.generic_visit(node)
+
+    def visit_Call(self, node):
+        name = call_name(node.func)
+
+        if name in RISKY_CALLS and isinstance(node.func, ast.Name):
+            self.report('blocking', 'risky-call', f"Calls '{name}()'", node)
+        elif name in ('getattr', 'hasattr') and len(node.args) > 1:
+            attr = node.args[1]
+            if not (isinstance(attr, ast.Constant) and isinstance(attr.value, str) and not attr.value.startswith('_')):
+                self.report('blocking', 'risky-call', f"Calls '{name}()' with a dynamic or private attribute name", node)
+        elif name in FILE_WRITERS and isinstance(node.func, ast.Attribute) and (node.args or any(k.arg in ('path', 'path_or_buf', 'excel_writer', 'file', 'fname', 'con') for k in node.keywords)):
+            self.report('blocking', 'file-write', f"Writes to a file with '.{name}()'", node)
+        elif name and name.startswith('read_') and isinstance(node.func, ast.Attribute):
+            self.report('blocking', 'file-read', f"Reads external data with '.{name}()'", node)
+
+        if name == 'rename':
+            for keyword in node.keywords:
+                if keyword.arg == 'columns' and isinstance(keyword.value, ast.Dict):
+                    for value in keyword.value.values:
+                        self.created_columns.update(string_values(value))
+        elif name == 'assign':
+            self.created_columns.update(k.arg for k in node.keywords if k.arg)
+        else:
+            for keyword in node.keywords:
+                if keyword.arg in COLUMN_KEYWORDS:
+                    for column in string_values(keyword.value):
+                        self.referenced_columns.setdefault(column, node)
+
+        self.generic_visit(node)
+
+    def visit_Subscript(self, node):
+        # df['col'] and df[['a', 'b']]; lookups on the parameters and inputs dicts are not columns
+        if not (isinstance(node.value, ast.Name) and node.value.id in ('parameters', 'inputs')):
+            columns = string_values(node.slice)
+            if isinstance(node.ctx, ast.Store):
+                self.created_columns.update(columns)
+            else:
+                for column in columns:
+                    self.referenced_columns.setdefault(column, node)
+        self.generic_visit(node)
+
+    def visit_While(self, node):
+        test = node.test
+        if isinstance(test, ast.Constant) and test.value and not can_exit(node):
+            self.report('blocking', 'infinite-loop', 'Loops forever: the while loop has a constant condition and no break', node)
+        self.generic_visit(node)
+
+    def visit_For(self, node):
+        iterator = node.iter
+        if is_infinite_iterator(iterator) and not can_exit(node):
+            self.report('blocking', 'infinite-loop', f"Loops forever over '{call_name(iterator.func)}()' without a break", node)
+        self.generic_visit(node)
+
+
+def analyze(code, columns, allowed_modules):
+    try:
+        tree = ast.parse(code)
+    except SyntaxError as error:
+        return [{'severity': 'blocking', 'rule': 'syntax-error', 'message': f'Syntax error: {error.msg}', 'line': error.lineno}]
+
+    analyzer = Analyzer(set(allowed_modules))
+    analyzer.visit(tree)
+
+    if not analyzer.defines_transform:
+        analyzer.report('blocking', 'missing-entrypoint', 'The code does not define transform_data(df)', tree)
+
+    if columns is not None:
+        known = set(columns) | analyzer.created_columns
+        for column, node in analyzer.referenced_columns.items():
+            if column not in known:
+                analyzer.report('warning', 'unknown-column', f"References column '{column}', which is not in the sheet", node)
+
+    return analyzer.findings
+
+
+request = json.load(sys.stdin)
+json.dump({'findings': analyze(request['code'], request.get('columns'), request['allowedModules'])}, sys.stdout)
+`;
+
+// Parses generated code with Python's ast module and reports risky calls,
+// infinite loops and references to columns the sheet does not have.
+// Nothing is executed; the analyzer runs with the same isolated interpreter settings.
+export async function analyzeCode(code: string, columnNames?: string[]): Promise<CodeAnalysis> {
+  const output = await new Promise<string>((resolve, reject) => {
+    const python = spawn(PYTHON_COMMAND, [...PYTHON_ARGS, '-c', ANALYZER_SCRIPT], {
+      timeout: ANALYSIS_TIMEOUT_MS,
+      env: SANDBOX_ENV
+    });
+
+    let stdout = '';
+    let stderr = '';
+
+    python.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    python.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    python.on('close', (exitCode) => {
+      if (exitCode !== 0) {
+        reject(new CodeAnalysisError(stderr || 'Code analysis failed'));
+        return;
+      }
+      resolve(stdout);
+    });
+
+    python.on('error', (error) => {
+      reject(new CodeAnalysisError(`Code analysis error: ${error.message}`));
+    });
+
+    python.stdin.end(JSON.stringify({ code, columns: columnNames ?? null, allowedModules: ALLOWED_MODULES }));
+  });
+
+  const { findings } = JSON.parse(output) as { findings: CodeFinding[] };
+  return {
+    findings,
+    safe: findings.every(finding => finding.severity !== 'blocking')
+  };
+}
+
+export function describeBlockingFindings(analysis: CodeAnalysis): string {
+  return analysis.findings
+    .filter(finding => finding.severity === 'blocking')
+    .map(finding => finding.line ? `Line ${finding.line}: ${finding.message}` : finding.message)
+    .join('; ');
+}
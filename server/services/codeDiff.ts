@@ -0,0 +1,70 @@
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface ParameterChange {
+  name: string;
+  before?: any;
+  after?: any;
+}
+
+// Line-based diff from the longest common subsequence of the two texts
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // lcs[i][j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i], oldLine: i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newLines[j], newLine: j + 1 });
+      j++;
+    }
+  }
+  while (i < n) {
+    result.push({ type: 'removed', text: oldLines[i], oldLine: i + 1 });
+    i++;
+  }
+  while (j < m) {
+    result.push({ type: 'added', text: newLines[j], newLine: j + 1 });
+    j++;
+  }
+
+  return result;
+}
+
+export function diffParameters(
+  before: Array<{ name: string }>,
+  after: Array<{ name: string }>
+): ParameterChange[] {
+  const beforeByName = new Map(before.map(param => [param.name, param]));
+  const afterByName = new Map(after.map(param => [param.name, param]));
+  const names = Array.from(new Set([...Array.from(beforeByName.keys()), ...Array.from(afterByName.keys())]));
+
+  return names
+    .filter(name => JSON.stringify(beforeByName.get(name)) !== JSON.stringify(afterByName.get(name)))
+    .map(name => ({ name, before: beforeByName.get(name), after: afterByName.get(name) }));
+}
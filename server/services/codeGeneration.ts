@@ -0,0 +1,64 @@
+import { llmProvider, latestCode, type CodeGenerationResult, type ColumnInfo, type ConversationTurn, type InputTable } from "./llmProviders";
+import { compileInstruction } from "./instructionCompiler";
+
+export type { CodeGenerationResult } from "./llmProviders";
+
+export async function generatePandasCode(
+  nlInstruction: string,
+  columns: ColumnInfo[],
+  preview: Array<Record<string, any>>,
+  history: ConversationTurn[] = [],
+  inputs: InputTable[] = []
+): Promise<CodeGenerationResult> {
+  // Common instructions compile locally: instant, free and reproducible. A follow-up
+  // has to edit the previous code, which only the model can do.
+  const compiled = latestCode(history) ? null : compileInstruction(nlInstruction, columns);
+  if (compiled) {
+    return compiled;
+  }
+
+  try {
+    const result = await llmProvider.generateCode({ nlInstruction, columns, preview, history, inputs });
+
+    return {
+      code: result.code || "# Unable to generate code",
+      confidence: result.confidence || 'low',
+      parameters: result.parameters || [],
+      explanation: result.explanation || "Code generation failed"
+    };
+  } catch (error) {
+    console.error(`${llmProvider.name} code generation error:`, error);
+    return {
+      code: "# Error generating code: " + (error as Error).message,
+      confidence: 'low',
+      parameters: [],
+      explanation: "Failed to generate code due to an error"
+    };
+  }
+}
+
+export async function improveCode(
+  originalCode: string,
+  errorMessage: string,
+  columns: ColumnInfo[],
+  inputs: InputTable[] = []
+): Promise<CodeGenerationResult> {
+  try {
+    const result = await llmProvider.improveCode({ originalCode, errorMessage, columns, inputs });
+
+    return {
+      code: result.code || "# Unable to fix code",
+      confidence: result.confidence || 'low',
+      parameters: result.parameters || [],
+      explanation: result.explanation || "Code fix failed"
+    };
+  } catch (error) {
+    console.error(`${llmProvider.name} code improvement error:`, error);
+    return {
+      code: "# Error fixing code: " + (error as Error).message,
+      confidence: 'low',
+      parameters: [],
+      explanation: "Failed to fix code due to an error"
+    };
+  }
+}
@@ -0,0 +1,203 @@
+import type { PlaybookInputColumn } from '@shared/schema';
+import type { ParameterError } from './parameterValidation';
+
+export interface SheetColumn {
+  name: string;
+  type: string;
+}
+
+export interface ColumnMappingSuggestion {
+  inputColumn: string;
+  sheetColumn: string | null;
+  score: number;
+}
+
+export type ColumnMappingResult =
+  | { success: true; renames: Record<string, string> }
+  | { success: false; errors: ParameterError[] };
+
+// Below this a suggestion is more likely wrong than helpful
+const MIN_SUGGESTION_SCORE = 0.45;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Records every column of the sheet a playbook was saved against. Columns the
+// code names in a string literal are required; the rest may go unmapped.
+export function detectInputColumns(code: string, columns: SheetColumn[]): PlaybookInputColumn[] {
+  return columns.map(column => ({
+    name: column.name,
+    type: column.type,
+    required: new RegExp(`['"]${escapeRegExp(column.name)}['"]`).test(code)
+  }));
+}
+
+function tokenize(name: string): string[] {
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function bigrams(value: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    result.push(value.slice(i, i + 2));
+  }
+  return result;
+}
+
+// Sørensen–Dice coefficient over character bigrams
+function diceCoefficient(a: string, b: string): number {
+  if (a === b) return 1;
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  if (aBigrams.length === 0 || bBigrams.length === 0) return 0;
+
+  const remaining = [...bBigrams];
+  let matches = 0;
+  for (const bigram of aBigrams) {
+    const index = remaining.indexOf(bigram);
+    if (index !== -1) {
+      matches++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * matches) / (aBigrams.length + bBigrams.length);
+}
+
+function isSubsequence(short: string, long: string): boolean {
+  let i = 0;
+  for (const char of long) {
+    if (char === short[i]) i++;
+  }
+  return i === short.length;
+}
+
+// Scores abbreviations such as "amt" -> "amount" or "cust" -> "customer"
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  if (long.startsWith(short)) return 0.9;
+  if (short[0] === long[0] && short.length > 1 && isSubsequence(short, long)) return 0.8;
+  return 0;
+}
+
+export function nameSimilarity(a: string, b: string): number {
+  const aTokens = tokenize(a);
+  const bTokens = tokenize(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  const dice = diceCoefficient(aTokens.join(''), bTokens.join(''));
+  const tokenTotal = aTokens.reduce(
+    (sum, token) => sum + Math.max(...bTokens.map(other => tokenSimilarity(token, other))),
+    0
+  );
+  const tokenScore = tokenTotal / Math.max(aTokens.length, bTokens.length);
+
+  return Math.max(dice, tokenScore);
+}
+
+function matchScore(input: PlaybookInputColumn, column: SheetColumn): number {
+  const typeAdjustment = input.type === column.type ? 0.1 : -0.1;
+  return nameSimilarity(input.name, column.name) + typeAdjustment;
+}
+
+// Greedily pairs each input column with its best-scoring sheet column, so no
+// sheet column is suggested twice
+export function suggestColumnMapping(
+  inputColumns: PlaybookInputColumn[],
+  sheetColumns: SheetColumn[]
+): ColumnMappingSuggestion[] {
+  const candidates = inputColumns.flatMap(input =>
+    sheetColumns.map(column => ({ input: input.name, column: column.name, score: matchScore(input, column) }))
+  ).filter(candidate => candidate.score >= MIN_SUGGESTION_SCORE);
+
+  // Exact name matches always win over fuzzy ones
+  candidates.sort((a, b) =>
+    Number(b.input === b.column) - Number(a.input === a.column) || b.score - a.score
+  );
+
+  const assigned = new Map<string, ColumnMappingSuggestion>();
+  const usedColumns = new Set<string>();
+  for (const candidate of candidates) {
+    if (assigned.has(candidate.input) || usedColumns.has(candidate.column)) continue;
+    assigned.set(candidate.input, {
+      inputColumn: candidate.input,
+      sheetColumn: candidate.column,
+      score: Math.round(Math.min(candidate.score, 1) * 100) / 100
+    });
+    usedColumns.add(candidate.column);
+  }
+
+  return inputColumns.map(input =>
+    assigned.get(input.name) || { inputColumn: input.name, sheetColumn: null, score: 0 }
+  );
+}
+
+// Checks a user-confirmed mapping (input column -> sheet column) and turns it
+// into the sheet column -> input column renames applied before transform_data.
+// Input columns missing from the mapping fall back to a sheet column of the same name.
+export function resolveColumnMapping(
+  inputColumns: PlaybookInputColumn[],
+  mapping: Record<string, string | null> = {},
+  sheetColumnNames: string[]
+): ColumnMappingResult {
+  const errors: ParameterError[] = [];
+  const renames: Record<string, string> = {};
+  const mappedBy = new Map<string, string>();
+  const inputNames = new Set(inputColumns.map(input => input.name));
+
+  for (const name of Object.keys(mapping)) {
+    if (!inputNames.has(name)) {
+      errors.push({ field: name, message: 'Not an input column of this playbook' });
+    }
+  }
+
+  for (const input of inputColumns) {
+    const sheetColumn = input.name in mapping
+      ? mapping[input.name]
+      : sheetColumnNames.includes(input.name) ? input.name : null;
+
+    if (!sheetColumn) {
+      if (input.required) {
+        errors.push({ field: input.name, message: 'Required column is not mapped' });
+      }
+      continue;
+    }
+
+    if (!sheetColumnNames.includes(sheetColumn)) {
+      errors.push({ field: input.name, message: `Sheet has no column "${sheetColumn}"` });
+      continue;
+    }
+
+    const previous = mappedBy.get(sheetColumn);
+    if (previous) {
+      errors.push({ field: input.name, message: `"${sheetColumn}" is already mapped to "${previous}"` });
+      continue;
+    }
+    mappedBy.set(sheetColumn, input.name);
+
+    if (sheetColumn !== input.name) {
+      renames[sheetColumn] = input.name;
+    }
+  }
+
+  // A rename must not collide with a sheet column that keeps its name
+  const seen = new Set<string>();
+  for (const name of renamedColumnNames(sheetColumnNames, renames)) {
+    if (seen.has(name)) {
+      errors.push({ field: name, message: `Mapping would produce two columns named "${name}"` });
+    }
+    seen.add(name);
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, renames };
+}
+
+// Column names as the generated code will see them once the renames are applied
+export function renamedColumnNames(sheetColumnNames: string[], renames: Record<string, string>): string[] {
+  return sheetColumnNames.map(name => renames[name] ?? name);
+}
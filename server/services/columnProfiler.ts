@@ -0,0 +1,169 @@
+import { parseDateText, parseNumericText } from './typeInference';
+import type { ColumnFormat, ColumnProfile } from '@shared/schema';
+
+const TOP_VALUES = 5;
+const MAX_VALUE_LENGTH = 50;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+const URL_PATTERN = /^(https?:\/\/|www\.)\S+$/i;
+const PHONE = /^\+?[\d\s().-]+$/;
+const DATE_LIKE = /^\d{4}[-/]\d{1,2}[-/]\d{1,2}|^\d{1,2}[-/]\d{1,2}[-/]\d{2,4}/;
+
+const NUMERIC_TYPES = new Set(['number', 'currency', 'percentage']);
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' ? value : Number(String(value).replace(/[$,\s%]/g, ''));
+}
+
+// Phone numbers need separators or a leading +, so plain digit strings stay IDs
+function isPhone(text: string): boolean {
+  const digits = text.replace(/\D/g, '').length;
+  return PHONE.test(text) && digits >= 7 && digits <= 15 && /[+\s().-]/.test(text);
+}
+
+function valueKind(value: unknown): string {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return 'date';
+
+  const text = String(value).trim();
+  if (['true', 'false'].includes(text.toLowerCase())) return 'boolean';
+  if (/\d/.test(text) && !isNaN(toNumber(text))) return 'number';
+  if (DATE_LIKE.test(text) && !isNaN(new Date(text).getTime())) return 'date';
+  return 'text';
+}
+
+// Excel date cells are read as Dates; serial day numbers are converted the same way
+function toDate(value: unknown, dayFirst: boolean): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'number') return parseDateText(String(value), dayFirst);
+  const date = new Date(Math.round((value - 25569) * 86400000));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Linear interpolation between the closest ranks, as pandas' quantile() does
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
+
+function numericProfile(values: unknown[], decimalSeparator: '.' | ','): ColumnProfile['numeric'] {
+  const numbers = values
+    .map(value => typeof value === 'number' ? value : parseNumericText(String(value), decimalSeparator)?.value ?? NaN)
+    .filter(Number.isFinite)
+    .sort((a, b) => a - b);
+  if (numbers.length === 0) return undefined;
+
+  const mean = numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+  const variance = numbers.reduce((sum, n) => sum + (n - mean) ** 2, 0) / numbers.length;
+  const p25 = quantile(numbers, 0.25);
+  const p75 = quantile(numbers, 0.75);
+  const fence = 1.5 * (p75 - p25);
+
+  return {
+    min: numbers[0],
+    max: numbers[numbers.length - 1],
+    mean: round(mean),
+    stdDev: round(Math.sqrt(variance)),
+    quantiles: {
+      p5: round(quantile(numbers, 0.05)),
+      p25: round(p25),
+      p50: round(quantile(numbers, 0.5)),
+      p75: round(p75),
+      p95: round(quantile(numbers, 0.95)),
+    },
+    outlierCount: numbers.filter(n => n < p25 - fence || n > p75 + fence).length,
+  };
+}
+
+function dateRange(values: unknown[], dayFirst: boolean): ColumnProfile['dateRange'] {
+  let min: Date | null = null;
+  let max: Date | null = null;
+
+  for (const value of values) {
+    const date = toDate(value, dayFirst);
+    if (!date) continue;
+    if (!min || date < min) min = date;
+    if (!max || date > max) max = date;
+  }
+
+  return min && max
+    ? { min: min.toISOString().slice(0, 10), max: max.toISOString().slice(0, 10) }
+    : undefined;
+}
+
+function findIssues(profile: Omit<ColumnProfile, 'issues'>, rowCount: number): string[] {
+  const issues: string[] = [];
+
+  if (profile.count === 0) {
+    return rowCount > 0 ? ['Every cell is empty'] : [];
+  }
+  if (profile.nullCount > 0) {
+    issues.push(`${profile.nullCount} empty ${profile.nullCount === 1 ? 'cell' : 'cells'} (${Math.round(profile.nullCount / rowCount * 100)}%)`);
+  }
+
+  const kinds = Object.entries(profile.valueKinds).sort(([, a], [, b]) => b - a);
+  if (kinds.length > 1) {
+    issues.push(`Mixed types: ${kinds.map(([kind, count]) => `${count} ${kind}`).join(', ')}`);
+  }
+  if (profile.numeric && profile.numeric.outlierCount > 0) {
+    const { outlierCount } = profile.numeric;
+    issues.push(`${outlierCount} ${outlierCount === 1 ? 'outlier' : 'outliers'}`);
+  }
+  if (profile.distinctCount === 1 && profile.count > 1) {
+    issues.push('Every value is the same');
+  }
+
+  return issues;
+}
+
+// Profiles every value of one column, given its inferred type and format
+export function profileColumn(values: unknown[], type: string, format: ColumnFormat = {}): ColumnProfile {
+  const present = values.filter(value => !isBlank(value));
+  const counts = new Map<string, number>();
+  const valueKinds: Record<string, number> = {};
+  const patterns = { email: 0, phone: 0, url: 0 };
+
+  for (const value of present) {
+    const text = String(value).trim();
+    counts.set(text, (counts.get(text) || 0) + 1);
+
+    const kind = valueKind(value);
+    valueKinds[kind] = (valueKinds[kind] || 0) + 1;
+
+    // Numbers and dates written as text are not contact details
+    if (kind === 'text') {
+      if (EMAIL.test(text)) patterns.email++;
+      else if (URL_PATTERN.test(text)) patterns.url++;
+      else if (isPhone(text)) patterns.phone++;
+    }
+  }
+
+  const topValues = Array.from(counts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, TOP_VALUES)
+    .map(([value, count]) => ({ value: value.slice(0, MAX_VALUE_LENGTH), count }));
+
+  const profile: Omit<ColumnProfile, 'issues'> = {
+    count: present.length,
+    nullCount: values.length - present.length,
+    distinctCount: counts.size,
+    valueKinds,
+    topValues,
+    patterns,
+    numeric: NUMERIC_TYPES.has(type) ? numericProfile(present, format.decimalSeparator ?? '.') : undefined,
+    dateRange: type === 'date' ? dateRange(present, format.dateFormat?.startsWith('DD') ?? false) : undefined,
+  };
+
+  return { ...profile, issues: findIssues(profile, values.length) };
+}
@@ -0,0 +1,42 @@
+import type { ConversationMessage, Run } from '@shared/schema';
+import type { ConversationTurn } from './llmProviders';
+
+export function describeRunOutcome(run: Run): string | undefined {
+  switch (run.status) {
+    case 'completed':
+      return run.resultSummary
+        ? `ran successfully; ${run.resultSummary.originalRowCount} rows in, ${run.resultSummary.resultRowCount} rows out`
+        : 'ran successfully';
+    case 'failed':
+      return `failed with ${run.errorMessage || 'an unknown error'}`;
+    case 'cancelled':
+      return 'was cancelled before it finished';
+    default:
+      return undefined;
+  }
+}
+
+// Pairs each instruction with the code generated for it and the latest finished
+// run of exactly that code, oldest turn first
+export function buildConversationTurns(messages: ConversationMessage[], runs: Run[]): ConversationTurn[] {
+  const turns: ConversationTurn[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'user') {
+      turns.push({ instruction: message.content });
+      continue;
+    }
+
+    const turn = turns[turns.length - 1];
+    if (!turn || !message.generatedCode) continue;
+
+    turn.code = message.generatedCode;
+    const outcomes = runs
+      .filter(run => run.generatedCode === message.generatedCode)
+      .map(describeRunOutcome)
+      .filter(Boolean);
+    turn.outcome = outcomes[outcomes.length - 1];
+  }
+
+  return turns;
+}
@@ -1,5 +1,8 @@
 import * as XLSX from 'xlsx';
 import { PassThrough } from 'stream';
+import { profileColumn } from './columnProfiler';
+import { convertColumn, inferColumnType, isDateFormat, type CellSample } from './typeInference';
+import type { ColumnFormat, ColumnProfile, ColumnType, SheetParseOptions } from '@shared/schema';
 
 export interface SheetInfo {
   name: string;
@@ -9,8 +12,13 @@ export interface SheetInfo {
     name: string;
     type: string;
     index: number;
+    confidence: number;
+    inferredType?: string;
+    format: ColumnFormat;
+    profile: ColumnProfile;
   }>;
   preview: Array<Record<string, any>>;
+  parseOptions?: SheetParseOptions;
 }
 
 export interface ProcessedFile {
@@ -19,120 +27,201 @@ export interface ProcessedFile {
   fileSize: number;
 }
 
-export function inferColumnType(values: any[]): string {
-  const nonNullValues = values.filter(v => v !== null && v !== undefined && v !== '');
+const TYPE_SAMPLE_ROWS = 1000;
+
+function isCsv(filename: string): boolean {
+  return filename.toLowerCase().endsWith('.csv');
+}
+
+// Excel stores dates as serial day numbers with a date format. Those cells are
+// read as Dates in UTC (SheetJS's cellDates would use local time), so they
+// reach pandas as timestamps rather than floats.
+function readDateCells(workbook: XLSX.WorkBook): XLSX.WorkBook {
+  for (const worksheet of Object.values(workbook.Sheets)) {
+    for (const address of Object.keys(worksheet)) {
+      if (address.startsWith('!')) continue;
+      const cell = worksheet[address] as XLSX.CellObject;
+      if (cell.t === 'n' && typeof cell.z === 'string' && isDateFormat(cell.z)) {
+        cell.t = 'd';
+        cell.v = new Date(Math.round(((cell.v as number) - 25569) * 86400000));
+      }
+    }
+  }
+  return workbook;
+}
+
+// Excel cells keep their number format (cell.z), which tells dates,
+// percentages and currencies apart from plain numbers
+function readWorkbook(fileBuffer: Buffer, filename: string, options: XLSX.ParsingOptions = {}): XLSX.WorkBook {
+  if (isCsv(filename)) {
+    const csvData = fileBuffer.toString('utf-8');
+    return readDateCells(XLSX.read(csvData, { type: 'string', cellNF: true, ...options }));
+  }
   
-  if (nonNullValues.length === 0) return 'text';
+  return readDateCells(XLSX.read(fileBuffer, { type: 'buffer', cellNF: true, ...options }));
+}
+
+// SheetJS turns CSV text into numbers and dates on its own, dropping leading
+// zeros and misreading "1.234,5"; CSV cells are also read unparsed, so types
+// are inferred, and user-typed columns read, from the text as written
+function readCellSource(fileBuffer: Buffer, filename: string, workbook: XLSX.WorkBook): XLSX.WorkBook {
+  return isCsv(filename) ? readWorkbook(fileBuffer, filename, { raw: true }) : workbook;
+}
+
+// The cells of one column in rows [start, end) of the sheet, counted as
+// sheet_to_json counts them: from the first row of the range, blank rows included
+function columnCells(worksheet: XLSX.WorkSheet, columnIndex: number, start: number, end: number): CellSample[] {
+  if (!worksheet['!ref']) return [];
   
-  // Check for numbers
-  const numericCount = nonNullValues.filter(v => 
-    typeof v === 'number' || (!isNaN(Number(v)) && !isNaN(parseFloat(v)))
-  ).length;
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const cells: CellSample[] = [];
   
-  if (numericCount / nonNullValues.length > 0.8) {
-    return 'number';
+  for (let row = start; row < end; row++) {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: range.s.r + row, c: range.s.c + columnIndex })] as XLSX.CellObject | undefined;
+    cells.push(cell
+      ? { value: cell.v, text: cell.w, format: typeof cell.z === 'string' ? cell.z : undefined }
+      : { value: undefined });
   }
   
-  // Check for dates
-  const dateCount = nonNullValues.filter(v => {
-    if (v instanceof Date) return true;
-    if (typeof v === 'string') {
-      const parsed = new Date(v);
-      return !isNaN(parsed.getTime()) && v.match(/\d{2,4}[-\/]\d{1,2}[-\/]\d{1,4}|\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4}/);
+  return cells;
+}
+
+export const DEFAULT_PARSE_OPTIONS: SheetParseOptions = {
+  headerRow: 0,
+  skipLeadingRows: 0,
+  skipTrailingRows: 0,
+  columnTypes: {}
+};
+
+function isDefaultParseOptions(options: SheetParseOptions): boolean {
+  return options.headerRow === 0
+    && options.skipLeadingRows === 0
+    && options.skipTrailingRows === 0
+    && Object.keys(options.columnTypes).length === 0;
+}
+
+interface ParsedSheet {
+  headers: string[];
+  dataRows: any[][];
+  // Index of the first data row among the sheet's rows
+  firstDataRow: number;
+}
+
+// Repeated headers get a numbered suffix ("Amount", "Amount_2"), so each
+// column keeps its own values in the rows and its own type override
+function uniqueHeaders(headers: string[]): string[] {
+  const seen = new Set<string>();
+  return headers.map(header => {
+    let name = header;
+    for (let suffix = 2; seen.has(name); suffix++) {
+      name = `${header}_${suffix}`;
     }
-    return false;
-  }).length;
+    seen.add(name);
+    return name;
+  });
+}
+
+// cellSheet is the same sheet from readCellSource; columns the user typed are
+// read from its cells instead of taking SheetJS's values
+function parseWorksheet(
+  worksheet: XLSX.WorkSheet,
+  cellSheet: XLSX.WorkSheet,
+  options: SheetParseOptions = DEFAULT_PARSE_OPTIONS
+): ParsedSheet | null {
+  const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
+  const headerRow = jsonData[options.headerRow];
   
-  if (dateCount / nonNullValues.length > 0.7) {
-    return 'date';
-  }
+  if (!headerRow || headerRow.length === 0) return null;
   
-  // Check for currency
-  const currencyCount = nonNullValues.filter(v => 
-    typeof v === 'string' && v.match(/^\$?\d+\.?\d*$|^\d+\.?\d*\$?$/)
-  ).length;
+  // Clean and process headers. Unnamed columns are named by their position in
+  // the sheet, which does not change with the header row.
+  const headers = uniqueHeaders(Array.from(headerRow, (header, index) => 
+    header && header.toString().trim() || `Column_${index + 1}`
+  ));
   
-  if (currencyCount / nonNullValues.length > 0.8) {
-    return 'currency';
-  }
+  const firstDataRow = options.headerRow + 1 + options.skipLeadingRows;
+  const endRow = Math.max(firstDataRow, jsonData.length - options.skipTrailingRows);
+  const dataRows = jsonData.slice(firstDataRow, endRow);
   
-  // Check for boolean
-  const booleanCount = nonNullValues.filter(v => 
-    typeof v === 'boolean' || 
-    (typeof v === 'string' && ['true', 'false', 'yes', 'no', '1', '0'].includes(v.toLowerCase()))
-  ).length;
+  headers.forEach((header, index) => {
+    const type = options.columnTypes[header];
+    if (!type) return;
+    
+    const values = convertColumn(columnCells(cellSheet, index, firstDataRow, endRow), type);
+    dataRows.forEach((row, rowIndex) => {
+      row[index] = values[rowIndex];
+    });
+  });
   
-  if (booleanCount / nonNullValues.length > 0.8) {
-    return 'boolean';
-  }
+  return { headers, dataRows, firstDataRow };
+}
+
+function toRecords(headers: string[], rows: any[][]): Array<Record<string, any>> {
+  return rows.map(row => {
+    const obj: Record<string, any> = {};
+    headers.forEach((header, index) => {
+      obj[header] = row[index] ?? null;
+    });
+    return obj;
+  });
+}
+
+function describeSheet(
+  worksheet: XLSX.WorkSheet,
+  cellSheet: XLSX.WorkSheet,
+  sheetName: string,
+  options: SheetParseOptions
+): SheetInfo | null {
+  const parsed = parseWorksheet(worksheet, cellSheet, options);
   
-  // Check for categories (limited unique values)
-  const uniqueValues = new Set(nonNullValues);
-  if (uniqueValues.size <= Math.max(10, nonNullValues.length * 0.1)) {
-    return 'category';
-  }
+  if (!parsed) return null;
+  
+  const { headers: cleanHeaders, dataRows, firstDataRow } = parsed;
   
-  return 'text';
+  // Get preview data (first 100 rows)
+  const preview = toRecords(cleanHeaders, dataRows.slice(0, 100));
+  
+  // Infer column types from the first rows, then profile every value
+  const columns = cleanHeaders.map((header, index) => {
+    const columnValues = dataRows.map(row => row[index]);
+    const sampleEnd = firstDataRow + Math.min(dataRows.length, TYPE_SAMPLE_ROWS);
+    const inferred = inferColumnType(columnCells(cellSheet, index, firstDataRow, sampleEnd));
+    const override = options.columnTypes[header];
+    const type = override ?? inferred.type;
+    
+    return {
+      name: header,
+      type,
+      index,
+      confidence: override ? 1 : inferred.confidence,
+      ...(override && { inferredType: inferred.type }),
+      format: inferred.format,
+      profile: profileColumn(columnValues, type, inferred.format)
+    };
+  });
+  
+  return {
+    name: sheetName,
+    rowCount: dataRows.length,
+    columnCount: cleanHeaders.length,
+    columns,
+    preview,
+    ...(!isDefaultParseOptions(options) && { parseOptions: options })
+  };
 }
 
 export async function processFile(fileBuffer: Buffer, filename: string): Promise<ProcessedFile> {
   try {
-    let workbook: XLSX.WorkBook;
-    
-    if (filename.toLowerCase().endsWith('.csv')) {
-      const csvData = fileBuffer.toString('utf-8');
-      workbook = XLSX.read(csvData, { type: 'string' });
-    } else {
-      workbook = XLSX.read(fileBuffer, { type: 'buffer' });
-    }
-    
+    const workbook = readWorkbook(fileBuffer, filename);
+    const cellSource = readCellSource(fileBuffer, filename, workbook);
     const sheets: SheetInfo[] = [];
     
     for (const sheetName of workbook.SheetNames) {
-      const worksheet = workbook.Sheets[sheetName];
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-      
-      if (jsonData.length === 0) continue;
-      
-      const headerRow = jsonData[0] as any[];
-      const dataRows = jsonData.slice(1) as any[][];
+      const sheet = describeSheet(workbook.Sheets[sheetName], cellSource.Sheets[sheetName], sheetName, DEFAULT_PARSE_OPTIONS);
       
-      if (!headerRow || headerRow.length === 0) continue;
-      
-      // Clean and process headers
-      const cleanHeaders = headerRow.map((header, index) => 
-        header && header.toString().trim() || `Column_${index + 1}`
-      );
-      
-      // Get preview data (first 100 rows)
-      const previewRows = dataRows.slice(0, 100);
-      const preview = previewRows.map(row => {
-        const obj: Record<string, any> = {};
-        cleanHeaders.forEach((header, index) => {
-          obj[header] = row[index] || null;
-        });
-        return obj;
-      });
-      
-      // Infer column types
-      const columns = cleanHeaders.map((header, index) => {
-        const columnValues = dataRows.map(row => row[index]).slice(0, 1000); // Sample first 1000 rows
-        const type = inferColumnType(columnValues);
-        
-        return {
-          name: header,
-          type,
-          index
-        };
-      });
-      
-      sheets.push({
-        name: sheetName,
-        rowCount: dataRows.length,
-        columnCount: cleanHeaders.length,
-        columns,
-        preview
-      });
+      if (sheet) {
+        sheets.push(sheet);
+      }
     }
     
     return {
@@ -146,6 +235,89 @@ export async function processFile(fileBuffer: Buffer, filename: string): Promise
   }
 }
 
+// Re-reads one sheet of a stored file with the user's header row, skipped rows
+// and column types. Null when the chosen header row is empty.
+export async function processSheet(
+  fileBuffer: Buffer,
+  filename: string,
+  sheetName: string,
+  options: SheetParseOptions
+): Promise<SheetInfo | null> {
+  const workbook = readWorkbook(fileBuffer, filename);
+  const worksheet = workbook.Sheets[sheetName];
+  
+  if (!worksheet) {
+    throw new Error(`Sheet "${sheetName}" not found in ${filename}`);
+  }
+  
+  const cellSource = readCellSource(fileBuffer, filename, workbook);
+  return describeSheet(worksheet, cellSource.Sheets[sheetName], sheetName, options);
+}
+
+export async function loadSheetRows(
+  fileBuffer: Buffer,
+  filename: string,
+  sheetName: string,
+  options: SheetParseOptions = DEFAULT_PARSE_OPTIONS
+): Promise<Array<Record<string, any>>> {
+  const workbook = readWorkbook(fileBuffer, filename);
+  const worksheet = workbook.Sheets[sheetName];
+  
+  if (!worksheet) {
+    throw new Error(`Sheet "${sheetName}" not found in ${filename}`);
+  }
+  
+  // The cells as written are only needed for columns the user typed
+  const cellSheet = Object.keys(options.columnTypes).length > 0
+    ? readCellSource(fileBuffer, filename, workbook).Sheets[sheetName]
+    : worksheet;
+  const parsed = parseWorksheet(worksheet, cellSheet, options);
+  
+  if (!parsed) return [];
+  
+  return toRecords(parsed.headers, parsed.dataRows);
+}
+
+// The first rows of a sheet as text, header included, for picking the header row
+export async function loadRawSheetRows(
+  fileBuffer: Buffer,
+  filename: string,
+  sheetName: string,
+  limit: number
+): Promise<{ rows: string[][]; rowCount: number }> {
+  const workbook = readWorkbook(fileBuffer, filename, isCsv(filename) ? { raw: true } : {});
+  const worksheet = workbook.Sheets[sheetName];
+  
+  if (!worksheet) {
+    throw new Error(`Sheet "${sheetName}" not found in ${filename}`);
+  }
+  
+  const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false, defval: '' }) as string[][];
+  return { rows: rows.slice(0, limit), rowCount: rows.length };
+}
+
+// pandas dtypes the worker casts user-typed columns to, so e.g. ZIP codes
+// stay strings. 'datetime' is not a dtype: the worker converts those columns
+// with pd.to_datetime, which turns unreadable dates into NaT instead of failing.
+const PANDAS_DTYPES: Record<ColumnType, string> = {
+  text: 'string',
+  id: 'string',
+  email: 'string',
+  url: 'string',
+  category: 'category',
+  number: 'float64',
+  currency: 'float64',
+  percentage: 'float64',
+  date: 'datetime',
+  boolean: 'boolean'
+};
+
+export function sheetDtypes(options?: SheetParseOptions): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(options?.columnTypes || {}).map(([column, type]) => [column, PANDAS_DTYPES[type]])
+  );
+}
+
 export function createDownloadBuffer(data: any[], format: 'xlsx' | 'csv'): Buffer {
   if (format === 'csv') {
     if (data.length === 0) return Buffer.from('');
@@ -157,7 +329,7 @@ export function createDownloadBuffer(data: any[], format: 'xlsx' | 'csv'): Buffe
         headers.map(header => {
           const value = row[header];
           if (value === null || value === undefined) return '';
-          const stringValue = String(value);
+          const stringValue = value instanceof Date ? value.toISOString() : String(value);
           // Escape CSV values that contain commas, quotes, or newlines
           if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
             return `"${stringValue.replace(/"/g, '""')}"`;
@@ -0,0 +1,74 @@
+import { storage } from '../storage';
+import { blobStore } from './blobStore';
+import { loadSheetRows, sheetDtypes } from './fileProcessor';
+import type { InputSheet, Upload } from '@shared/schema';
+
+export type UploadSheet = Upload['sheets'][number];
+
+export interface ResolvedInputSheet {
+  input: InputSheet;
+  sheet: UploadSheet;
+}
+
+export interface InputSheetError {
+  field: string;
+  message: string;
+}
+
+export type InputSheetResolution =
+  | { success: true; sheets: ResolvedInputSheet[] }
+  | { success: false; errors: InputSheetError[] };
+
+// Checks that every extra input names a sheet of one of the user's uploads
+export async function resolveInputSheets(inputs: InputSheet[], userId: string): Promise<InputSheetResolution> {
+  const sheets: ResolvedInputSheet[] = [];
+  const errors: InputSheetError[] = [];
+  const uploads = new Map<string, Upload | undefined>();
+
+  for (const input of inputs) {
+    if (!uploads.has(input.uploadId)) {
+      uploads.set(input.uploadId, await storage.getUpload(input.uploadId, userId));
+    }
+
+    const sheet = uploads.get(input.uploadId)?.sheets.find(s => s.name === input.sheetName);
+    if (sheet) {
+      sheets.push({ input, sheet });
+    } else {
+      errors.push({ field: input.name, message: `Sheet "${input.sheetName}" not found` });
+    }
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, sheets };
+}
+
+export interface LoadedInputSheets {
+  rows: Record<string, any[]>;
+  // Explicit dtypes of the columns the user typed, by input name
+  dtypes: Record<string, Record<string, string>>;
+}
+
+// Full rows of every extra input, keyed by the name transform_data sees.
+// Each upload's file is read once however many of its sheets are used.
+export async function loadInputSheets(inputs: InputSheet[], userId: string): Promise<LoadedInputSheets> {
+  const rows: Record<string, any[]> = {};
+  const dtypes: Record<string, Record<string, string>> = {};
+  const files = new Map<string, { upload: Upload; buffer: Buffer }>();
+
+  for (const input of inputs) {
+    let file = files.get(input.uploadId);
+    if (!file) {
+      const upload = await storage.getUpload(input.uploadId, userId);
+      if (!upload) {
+        throw new Error(`Upload for input "${input.name}" not found`);
+      }
+      file = { upload, buffer: await blobStore.get(upload.s3Key) };
+      files.set(input.uploadId, file);
+    }
+
+    const parseOptions = file.upload.sheets.find(sheet => sheet.name === input.sheetName)?.parseOptions;
+    rows[input.name] = await loadSheetRows(file.buffer, file.upload.originalName, input.sheetName, parseOptions);
+    dtypes[input.name] = sheetDtypes(parseOptions);
+  }
+
+  return { rows, dtypes };
+}
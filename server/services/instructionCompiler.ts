@@ -0,0 +1,400 @@
+import type { CodeGenerationResult, ColumnInfo } from './llmProviders';
+
+type Parameter = CodeGenerationResult['parameters'][number];
+
+type Operator = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'contains' | 'startswith' | 'endswith' | 'isnull' | 'notnull';
+
+interface Value {
+  kind: 'string' | 'number' | 'date';
+  value: string | number;
+}
+
+interface Condition {
+  column: ColumnInfo;
+  operator: Operator;
+  value?: Value;
+}
+
+// Builds the body of transform_data and the parameters it reads
+interface CodeBuilder {
+  lines: string[];
+  parameters: Parameter[];
+}
+
+// Tried in order, so longer phrases come before their prefixes ("is not" before "is")
+const OPERATORS: Array<[RegExp, Operator]> = [
+  [/^is\s+not\s+(?:empty|blank|missing|null)$/, 'notnull'],
+  [/^(?:is\s+)?(?:empty|blank|missing|null)$/, 'isnull'],
+  [/^(?:is\s+not\s+equal\s+to|does\s+not\s+equal|not\s+equals?|is\s+not|!=|<>)\s*/, '!='],
+  [/^(?:is\s+)?(?:greater|more)\s+than\s+or\s+equal\s+to\s+|^(?:is\s+)?at\s+least\s+|^>=\s*/, '>='],
+  [/^(?:is\s+)?(?:less|fewer)\s+than\s+or\s+equal\s+to\s+|^(?:is\s+)?at\s+most\s+|^<=\s*/, '<='],
+  [/^(?:is\s+)?(?:greater|more|higher|larger)\s+than\s+|^(?:is\s+)?(?:over|above|after|later\s+than)\s+|^>\s*/, '>'],
+  [/^(?:is\s+)?(?:less|fewer|lower|smaller)\s+than\s+|^(?:is\s+)?(?:under|below|before|earlier\s+than)\s+|^<\s*/, '<'],
+  [/^(?:contains|includes)\s+/, 'contains'],
+  [/^(?:starts|begins)\s+with\s+/, 'startswith'],
+  [/^ends\s+with\s+/, 'endswith'],
+  [/^(?:is\s+equal\s+to|equals?|is|==|=)\s*/, '=='],
+];
+
+const AGGREGATIONS: Record<string, string> = {
+  sum: 'sum',
+  total: 'sum',
+  average: 'mean',
+  avg: 'mean',
+  mean: 'mean',
+  count: 'count',
+  min: 'min',
+  minimum: 'min',
+  max: 'max',
+  maximum: 'max',
+};
+
+const VALUE = `"[^"]*"|'[^']*'|\\S+`;
+
+function py(value: string | number): string {
+  return typeof value === 'number' ? String(value) : JSON.stringify(value);
+}
+
+function snakeCase(name: string): string {
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'value';
+}
+
+function normalize(instruction: string): string {
+  return instruction.trim().replace(/\s+/g, ' ').replace(/[.;]+$/, '');
+}
+
+function parseValue(text: string): Value | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+
+  const quoted = trimmed.match(/^"([^"]*)"$|^'([^']*)'$/);
+  if (quoted) {
+    return { kind: 'string', value: quoted[1] ?? quoted[2] };
+  }
+  if (/^-?\d+(?:\.\d+)?$/.test(trimmed)) {
+    return { kind: 'number', value: Number(trimmed) };
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return { kind: 'date', value: trimmed };
+  }
+  // An unquoted value may not contain quotes of its own
+  return /["']/.test(trimmed) ? undefined : { kind: 'string', value: trimmed };
+}
+
+// Exact, case-insensitive match against the sheet's columns
+function findColumn(name: string, columns: ColumnInfo[]): ColumnInfo | undefined {
+  const unquoted = name.trim().replace(/^["'](.*)["']$/, '$1').toLowerCase();
+  return columns.find(column => column.name.toLowerCase() === unquoted);
+}
+
+// The column a phrase starts with, longest name first so "Order Date" wins over "Order"
+function leadingColumn(text: string, columns: ColumnInfo[]): { column: ColumnInfo; rest: string } | undefined {
+  const lower = text.toLowerCase();
+  const sorted = [...columns].sort((a, b) => b.name.length - a.name.length);
+
+  for (const column of sorted) {
+    for (const spelling of [column.name, `"${column.name}"`, `'${column.name}'`]) {
+      const candidate = spelling.toLowerCase();
+      if (lower.startsWith(candidate) && (text.length === candidate.length || /^[\s=<>!]/.test(text.slice(candidate.length)))) {
+        return { column, rest: text.slice(candidate.length).trim() };
+      }
+    }
+  }
+  return undefined;
+}
+
+function parseCondition(text: string, columns: ColumnInfo[]): Condition | undefined {
+  const leading = leadingColumn(text, columns);
+  if (!leading) return undefined;
+
+  const rest = leading.rest.toLowerCase();
+  for (const [pattern, operator] of OPERATORS) {
+    const match = rest.match(pattern);
+    if (!match) continue;
+
+    if (operator === 'isnull' || operator === 'notnull') {
+      return { column: leading.column, operator };
+    }
+
+    // Values keep their original case
+    const value = parseValue(leading.rest.slice(match[0].length));
+    if (!value) return undefined;
+    if (['>', '>=', '<', '<='].includes(operator) && value.kind === 'string') return undefined;
+    return { column: leading.column, operator, value };
+  }
+  return undefined;
+}
+
+// Splits on a connective outside quotes
+function splitOutsideQuotes(text: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+      continue;
+    }
+    const match = text.slice(i).match(separator);
+    if (match && match.index === 0) {
+      parts.push(current);
+      current = '';
+      i += match[0].length - 1;
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.map(part => part.trim());
+}
+
+// "A equals X and B before Y"; mixing "and" with "or" is left to the LLM
+function parseConditions(text: string, columns: ColumnInfo[]): { conditions: Condition[]; joiner: '&' | '|' } | undefined {
+  const andParts = splitOutsideQuotes(text, /^\s+and\s+/i);
+  const orParts = splitOutsideQuotes(text, /^\s+or\s+/i);
+  if (andParts.length > 1 && orParts.length > 1) return undefined;
+
+  const [parts, joiner] = orParts.length > 1 ? [orParts, '|' as const] : [andParts, '&' as const];
+  const conditions = parts.map(part => parseCondition(part, columns));
+  if (conditions.some(condition => !condition)) return undefined;
+
+  return { conditions: conditions as Condition[], joiner };
+}
+
+function addParameter(builder: CodeBuilder, baseName: string, value: Value, description: string): string {
+  let name = baseName;
+  for (let i = 2; builder.parameters.some(param => param.name === name); i++) {
+    name = `${baseName}_${i}`;
+  }
+  builder.parameters.push({ name, type: value.kind, defaultValue: value.value, description });
+  return name;
+}
+
+function conditionExpression(condition: Condition, builder: CodeBuilder): string {
+  const column = `df[${py(condition.column.name)}]`;
+  const { operator, value } = condition;
+
+  if (operator === 'isnull') return `${column}.isna()`;
+  if (operator === 'notnull') return `${column}.notna()`;
+
+  const suffix = value!.kind === 'number' && operator !== '==' && operator !== '!=' ? 'threshold'
+    : value!.kind === 'date' ? 'cutoff'
+    : 'value';
+  const param = addParameter(
+    builder,
+    `${snakeCase(condition.column.name)}_${suffix}`,
+    value!,
+    `Value ${condition.column.name} is compared with`
+  );
+  const read = `parameters.get(${py(param)}, ${py(value!.value)})`;
+
+  if (operator === 'contains' || operator === 'startswith' || operator === 'endswith') {
+    const text = `${column}.astype("string")`;
+    return operator === 'contains'
+      ? `${text}.str.contains(str(${read}), case=False, regex=False, na=False)`
+      : `${text}.str.${operator}(str(${read}), na=False)`;
+  }
+
+  // Values edited in the parameter form arrive as text
+  if (value!.kind === 'number') {
+    return `(pd.to_numeric(${column}, errors="coerce") ${operator} pd.to_numeric(${read}))`;
+  }
+  if (value!.kind === 'date') {
+    return `(pd.to_datetime(${column}, errors="coerce") ${operator} pd.to_datetime(${read}))`;
+  }
+  return `(${column} ${operator} ${read})`;
+}
+
+function maskExpression(conditions: Condition[], joiner: '&' | '|', builder: CodeBuilder): string {
+  return conditions.map(condition => conditionExpression(condition, builder)).join(` ${joiner} `);
+}
+
+function result(instruction: string, builder: CodeBuilder, explanation: string): CodeGenerationResult {
+  const code = [
+    'def transform_data(df):',
+    `    # ${instruction.replace(/\n/g, ' ')}`,
+    '    df = df.copy()',
+    ...builder.lines.map(line => `    ${line}`),
+  ].join('\n') + '\n';
+
+  return { code, confidence: 'high', parameters: builder.parameters, explanation };
+}
+
+// remove rows where Status equals "Closed" / keep rows where Amount > 100
+function compileFilter(instruction: string, columns: ColumnInfo[]): CodeGenerationResult | null {
+  const match = instruction.match(/^(remove|delete|drop|exclude|keep|filter|select|show)(?:\s+only)?(?:\s+the)?\s+rows\s+(?:where|with|whose|in\s+which)\s+(.+)$/i);
+  if (!match) return null;
+
+  const parsed = parseConditions(match[2], columns);
+  if (!parsed) return null;
+
+  const builder: CodeBuilder = { lines: [], parameters: [] };
+  const removing = /^(remove|delete|drop|exclude)$/i.test(match[1]);
+  builder.lines.push(`mask = ${maskExpression(parsed.conditions, parsed.joiner, builder)}`);
+  builder.lines.push(removing ? 'return df[~mask]' : 'return df[mask]');
+
+  return result(instruction, builder, `${removing ? 'Removes' : 'Keeps only'} the rows where ${match[2]}.`);
+}
+
+// add column Priority where Priority = "High" if Amount > 1000 else "Low"
+function compileConditionalColumn(instruction: string, columns: ColumnInfo[]): CodeGenerationResult | null {
+  const pattern = new RegExp(
+    `^(?:add|create)\\s+(?:a\\s+)?(?:new\\s+)?column\\s+("[^"]+"|'[^']+'|\\S+)\\s+(?:where\\s+\\S+(?:\\s+\\S+)*?\\s*=\\s*|=\\s*|as\\s+|with\\s+(?:value\\s+)?)?(${VALUE})\\s+if\\s+(.+?)\\s+else\\s+(${VALUE})$`,
+    'i'
+  );
+  const match = instruction.match(pattern);
+  if (!match) return null;
+
+  const name = match[1].replace(/^["'](.*)["']$/, '$1');
+  const whenTrue = parseValue(match[2]);
+  const whenFalse = parseValue(match[4]);
+  const parsed = parseConditions(match[3], columns);
+  if (!whenTrue || !whenFalse || !parsed) return null;
+
+  const builder: CodeBuilder = { lines: [], parameters: [] };
+  builder.lines.push(`mask = ${maskExpression(parsed.conditions, parsed.joiner, builder)}`);
+  builder.lines.push(`df[${py(name)}] = np.where(mask, ${py(whenTrue.value)}, ${py(whenFalse.value)})`);
+  builder.lines.push('return df');
+
+  return result(
+    instruction,
+    builder,
+    `Adds a ${name} column that is ${whenTrue.value} where ${match[3]} and ${whenFalse.value} otherwise.`
+  );
+}
+
+// group by Region and sum Amount into TotalAmount
+function compileGroupBy(instruction: string, columns: ColumnInfo[]): CodeGenerationResult | null {
+  const aggregations = Object.keys(AGGREGATIONS).join('|');
+  const pattern = new RegExp(
+    `^group\\s+(?:the\\s+rows\\s+)?by\\s+(.+?)\\s+and\\s+(?:then\\s+)?(${aggregations})\\s+(?:of\\s+|the\\s+)?(.+?)(?:\\s+(?:into|as)\\s+("[^"]+"|'[^']+'|\\S+))?$`,
+    'i'
+  );
+  const match = instruction.match(pattern);
+  if (!match) return null;
+
+  const groupColumns = splitOutsideQuotes(match[1], /^\s*(?:,\s*(?:and\s+)?|\s+and\s+)/i).map(name => findColumn(name, columns));
+  const valueColumn = findColumn(match[3], columns);
+  if (groupColumns.some(column => !column) || !valueColumn) return null;
+
+  const aggregation = AGGREGATIONS[match[2].toLowerCase()];
+  const outputName = match[4]?.replace(/^["'](.*)["']$/, '$1') || valueColumn.name;
+  const keys = (groupColumns as ColumnInfo[]).map(column => py(column.name)).join(', ');
+  const value = py(valueColumn.name);
+
+  const builder: CodeBuilder = { lines: [], parameters: [] };
+  if (aggregation !== 'count') {
+    // Numbers stored as text would otherwise be concatenated or rejected
+    builder.lines.push(`df[${value}] = pd.to_numeric(df[${value}], errors="coerce")`);
+  }
+  builder.lines.push(`result = df.groupby(by=[${keys}], as_index=False, dropna=False)[${value}].${aggregation}()`);
+  if (outputName !== valueColumn.name) {
+    builder.lines.push(`result = result.rename(columns={${value}: ${py(outputName)}})`);
+  }
+  builder.lines.push('return result');
+
+  const groupNames = (groupColumns as ColumnInfo[]).map(column => column.name).join(', ');
+  return result(
+    instruction,
+    builder,
+    `Groups the rows by ${groupNames} and takes the ${aggregation} of ${valueColumn.name}${outputName !== valueColumn.name ? ` as ${outputName}` : ''}.`
+  );
+}
+
+// fill empty Email cells with "unknown@example.com" / fill missing values with 0
+function compileFill(instruction: string, columns: ColumnInfo[]): CodeGenerationResult | null {
+  const match = instruction.match(new RegExp(`^fill\\s+(?:in\\s+)?(?:all\\s+|the\\s+)?(?:empty|missing|blank|null)\\s+(.*?)\\s*with\\s+(${VALUE})$`, 'i'));
+  if (!match) return null;
+
+  const target = match[1]
+    .replace(/^(?:cells|values)\s+(?:in|of)\s+/i, '')
+    .replace(/\s+(?:cells|values|column)$/i, '')
+    .replace(/^(?:cells|values)$/i, '')
+    .trim();
+  const column = target ? findColumn(target, columns) : undefined;
+  const value = parseValue(match[2]);
+  if ((target && !column) || !value) return null;
+
+  const builder: CodeBuilder = { lines: [], parameters: [] };
+  const param = addParameter(
+    builder,
+    column ? `${snakeCase(column.name)}_fill_value` : 'fill_value',
+    value,
+    `Value written into empty ${column ? column.name : ''} cells`.replace(/\s+/g, ' ')
+  );
+  const stored = `parameters.get(${py(param)}, ${py(value.value)})`;
+  const read = value.kind === 'number' ? `pd.to_numeric(${stored})` : stored;
+
+  if (column) {
+    builder.lines.push(`df[${py(column.name)}] = df[${py(column.name)}].fillna(${read})`);
+  } else {
+    builder.lines.push(`df = df.fillna(${read})`);
+  }
+  builder.lines.push('return df');
+
+  return result(instruction, builder, `Fills empty ${column ? `${column.name} ` : ''}cells with ${value.value}.`);
+}
+
+// sort by Amount descending
+function compileSort(instruction: string, columns: ColumnInfo[]): CodeGenerationResult | null {
+  const match = instruction.match(/^sort(?:\s+the)?(?:\s+rows)?\s+by\s+(.+?)(?:\s+(?:in\s+)?(asc|ascending|desc|descending)(?:\s+order)?)?$/i);
+  if (!match) return null;
+
+  const column = findColumn(match[1], columns);
+  if (!column) return null;
+
+  const ascending = !match[2] || match[2].toLowerCase().startsWith('asc');
+  const builder: CodeBuilder = { lines: [], parameters: [] };
+  builder.lines.push(`return df.sort_values(by=${py(column.name)}, ascending=${ascending ? 'True' : 'False'})`);
+
+  return result(instruction, builder, `Sorts the rows by ${column.name} in ${ascending ? 'ascending' : 'descending'} order.`);
+}
+
+// remove duplicate rows [by Email] / remove empty rows
+function compileCleanup(instruction: string, columns: ColumnInfo[]): CodeGenerationResult | null {
+  const duplicates = instruction.match(/^(?:remove|delete|drop)\s+(?:the\s+)?duplicate(?:\s+rows)?(?:\s+(?:by|based\s+on|in)\s+(.+))?$|^deduplicate(?:\s+rows)?(?:\s+by\s+(.+))?$/i);
+  if (duplicates) {
+    const target = duplicates[1] || duplicates[2];
+    const column = target ? findColumn(target, columns) : undefined;
+    if (target && !column) return null;
+
+    const builder: CodeBuilder = { lines: [], parameters: [] };
+    builder.lines.push(column ? `return df.drop_duplicates(subset=[${py(column.name)}])` : 'return df.drop_duplicates()');
+    return result(instruction, builder, column ? `Removes rows with a repeated ${column.name}.` : 'Removes duplicate rows.');
+  }
+
+  if (/^(?:remove|delete|drop)\s+(?:all\s+)?(?:the\s+)?(?:empty|blank)\s+rows$/i.test(instruction)) {
+    const builder: CodeBuilder = { lines: [], parameters: [] };
+    builder.lines.push(`return df.dropna(how="all")`);
+    return result(instruction, builder, 'Removes rows where every cell is empty.');
+  }
+
+  return null;
+}
+
+const COMPILERS = [compileFilter, compileConditionalColumn, compileGroupBy, compileFill, compileSort, compileCleanup];
+
+// Translates the common instructions (filters, conditional columns, group-and-aggregate,
+// filling empty cells, sorting, de-duplication) straight into pandas code against the
+// sheet's columns. Returns null when no rule matches, so the caller can ask the LLM.
+export function compileInstruction(nlInstruction: string, columns: ColumnInfo[]): CodeGenerationResult | null {
+  const instruction = normalize(nlInstruction);
+
+  for (const compile of COMPILERS) {
+    const compiled = compile(instruction, columns);
+    if (compiled) return compiled;
+  }
+  return null;
+}
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockProvider, type CodeGenerationRequest } from './llmProviders';
+
+const columns = [
+  { name: 'Date', type: 'date', index: 0 },
+  { name: 'Order Date', type: 'date', index: 1 },
+];
+
+function request(nlInstruction: string): CodeGenerationRequest {
+  return { nlInstruction, columns, preview: [], history: [], inputs: [] };
+}
+
+test('the mock provider generates code for its keyword rules on its own', async () => {
+  const mock = new MockProvider();
+
+  const sorted = await mock.generateCode(request('Sort by order date, newest first'));
+  assert.match(sorted.code, /df\.sort_values\(by="Order Date", ascending=False\)/);
+  assert.equal(sorted.confidence, 'medium');
+
+  const deduplicated = await mock.generateCode(request('Remove duplicate rows'));
+  assert.match(deduplicated.code, /df\.drop_duplicates\(\)/);
+});
+
+test('the mock provider returns the data unchanged for other instructions', async () => {
+  const result = await new MockProvider().generateCode(request('Pivot the regions into columns'));
+  assert.match(result.code, /return df\.copy\(\)/);
+  assert.equal(result.confidence, 'low');
+});
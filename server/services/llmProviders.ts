@@ -0,0 +1,461 @@
+import { GoogleGenAI } from '@google/genai';
+import OpenAI from 'openai';
+import 'dotenv/config';
+import type { ColumnFormat, ColumnProfile } from '@shared/schema';
+
+export interface ColumnInfo {
+  name: string;
+  type: string;
+  index: number;
+  format?: ColumnFormat;
+  profile?: ColumnProfile;
+}
+
+export interface CodeGenerationResult {
+  code: string;
+  confidence: 'high' | 'medium' | 'low';
+  parameters: Array<{
+    name: string;
+    type: string;
+    defaultValue: any;
+    description?: string;
+  }>;
+  explanation: string;
+}
+
+// An earlier instruction of the same conversation and what came of it
+export interface ConversationTurn {
+  instruction: string;
+  code?: string;
+  // How running the turn's code went, if it was run
+  outcome?: string;
+}
+
+// An extra sheet transform_data receives as inputs[name]
+export interface InputTable {
+  name: string;
+  columns: ColumnInfo[];
+  preview: Array<Record<string, any>>;
+}
+
+export interface CodeGenerationRequest {
+  nlInstruction: string;
+  columns: ColumnInfo[];
+  preview: Array<Record<string, any>>;
+  // Oldest first; empty for the first instruction of a conversation
+  history: ConversationTurn[];
+  // Empty unless the user picked extra input sheets
+  inputs: InputTable[];
+}
+
+export interface CodeRepairRequest {
+  originalCode: string;
+  errorMessage: string;
+  columns: ColumnInfo[];
+  // The extra input sheets the failed run read, if any
+  inputs: InputTable[];
+}
+
+// A backend that turns instructions into pandas code. Providers throw on
+// failure; codeGeneration.ts turns errors into a low-confidence result.
+export interface LlmProvider {
+  readonly name: string;
+  generateCode(request: CodeGenerationRequest): Promise<CodeGenerationResult>;
+  improveCode(request: CodeRepairRequest): Promise<CodeGenerationResult>;
+}
+
+export interface LlmModels {
+  // Used for code generation
+  generation: string;
+  // Used for repairing failed code; usually the stronger model
+  repair: string;
+}
+
+const CODE_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    code: { type: 'string' },
+    confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+    parameters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string' },
+          defaultValue: {},
+          description: { type: 'string' }
+        },
+        required: ['name', 'type', 'defaultValue']
+      }
+    },
+    explanation: { type: 'string' }
+  },
+  required: ['code', 'confidence', 'parameters', 'explanation']
+};
+
+const GENERATION_SYSTEM_INSTRUCTION = 'You are a data transformation expert. Generate pandas code and respond only with valid JSON.';
+const REPAIR_SYSTEM_INSTRUCTION = 'You are a data transformation expert. Fix pandas code and respond only with valid JSON.';
+
+export function latestCode(history: ConversationTurn[]): string | undefined {
+  return [...history].reverse().find(turn => turn.code)?.code;
+}
+
+// Earlier turns plus the code to edit, so a follow-up refines the previous
+// transform_data instead of starting over
+function conversationContext(history: ConversationTurn[]): string {
+  const code = latestCode(history);
+  if (!code) return '';
+
+  const turns = history.map((turn, index) => {
+    const outcome = turn.outcome ? `\n   Result: ${turn.outcome}` : '';
+    return `${index + 1}. "${turn.instruction}"${outcome}`;
+  }).join('\n');
+
+  return `
+This instruction is a follow-up in an ongoing conversation. Earlier instructions, oldest first:
+${turns}
+
+Current code:
+${code}
+
+Edit the current code to also satisfy the new instruction. Keep everything earlier instructions asked
+for unless the new instruction changes it, and keep the existing parameters where they still apply.
+`;
+}
+
+// Type plus how the values are written, e.g. "amount (currency, €, decimal comma)"
+function describeColumns(columns: ColumnInfo[]): string {
+  return columns.map(col => {
+    const format = col.format || {};
+    const details = [
+      col.type,
+      format.currency,
+      format.dateFormat === 'excel' ? 'Excel dates, read as datetimes' : format.dateFormat,
+      format.decimalSeparator === ',' ? 'decimal comma' : undefined,
+    ].filter(Boolean);
+    return `${col.name} (${details.join(', ')})`;
+  }).join(', ');
+}
+
+function describeSample(preview: Array<Record<string, any>>): string {
+  return preview.slice(0, 3).map(row =>
+    Object.entries(row).map(([k, v]) => `${k}: ${v}`).join(', ')
+  ).join('\n');
+}
+
+// What every value of a column looks like, so filters and thresholds fit the real data
+function describeProfile({ name, profile }: ColumnInfo): string | null {
+  if (!profile) return null;
+
+  const parts = [`${profile.distinctCount} distinct`];
+  if (profile.numeric) {
+    const { min, max, mean, quantiles } = profile.numeric;
+    parts.push(`min ${min}, median ${quantiles.p50}, mean ${mean}, max ${max}`);
+  }
+  if (profile.dateRange) {
+    parts.push(`dates ${profile.dateRange.min} to ${profile.dateRange.max}`);
+  }
+  if (!profile.numeric && !profile.dateRange && profile.topValues.length > 0) {
+    parts.push(`top values ${profile.topValues.map(({ value, count }) => `"${value}" (${count})`).join(', ')}`);
+  }
+  // Empty cells, mixed types, outliers
+  parts.push(...profile.issues);
+
+  return `- ${name}: ${parts.join('; ')}`;
+}
+
+function profileContext(columns: ColumnInfo[]): string {
+  const lines = columns.map(describeProfile).filter((line): line is string => line !== null);
+  return lines.length > 0 ? `Column profiles (over all rows):\n${lines.join('\n')}\n` : '';
+}
+
+// Schemas of the extra sheets, so joins and lookups use their real column names
+function inputsContext(inputs: InputTable[]): string {
+  if (inputs.length === 0) return '';
+
+  const tables = inputs.map(input =>
+    `inputs["${input.name}"] columns: ${describeColumns(input.columns)}\nSample data:\n${describeSample(input.preview)}`
+  ).join('\n\n');
+
+  return `
+Besides df, transform_data receives a second argument \`inputs\`, a dict of further DataFrames
+(other sheets or files) to join, look up or append. Declare it as transform_data(df, inputs) and
+read them as inputs["name"]; the result is still a single DataFrame.
+
+${tables}
+`;
+}
+
+function generationPrompt({ nlInstruction, columns, preview, history, inputs }: CodeGenerationRequest): string {
+  const columnInfo = describeColumns(columns);
+  const sampleData = describeSample(preview);
+
+  return `You are an expert data analyst. Generate Python pandas code to transform the given dataset based on the natural language instruction.
+
+Dataset columns: ${columnInfo}
+${profileContext(columns)}Sample data:
+${sampleData}
+${inputsContext(inputs)}${conversationContext(history)}
+Natural language instruction: "${nlInstruction}"
+
+Requirements:
+1. Generate clean, readable pandas code
+2. Include comments explaining the transformation
+3. Use a function named transform_data(df) that takes a DataFrame and returns the transformed DataFrame
+4. Handle edge cases and data type conversions
+5. Identify any parameters that could be made configurable. Read each one from the global
+   \`parameters\` dict inside transform_data, e.g. parameters.get("amount_threshold", 1000);
+   never hard-code a value that is listed as a parameter. Use type "column" for a parameter
+   whose value is the name of one of the dataset columns
+6. IMPORTANT: Always specify explicit values for pandas functions:
+   - For fillna(), always use fillna(value="some_value") or fillna(method="ffill")
+   - For dropna(), be explicit about parameters
+   - Use proper pandas syntax that works with pandas 2.x
+
+CRITICAL PANDAS RULES:
+- df.fillna("unknown") instead of df.fillna()
+- df.fillna(0) for numeric columns
+- df.fillna(method="ffill") for forward fill
+- Always return a valid DataFrame from transform_data()
+
+Respond with JSON in this exact format:
+{
+  "code": "# Python pandas code here",
+  "confidence": "high|medium|low",
+  "parameters": [
+    {
+      "name": "parameter_name",
+      "type": "string|number|date|boolean|column",
+      "defaultValue": "value",
+      "description": "optional description"
+    }
+  ],
+  "explanation": "Brief explanation of what the code does"
+}`;
+}
+
+function repairPrompt({ originalCode, errorMessage, columns, inputs }: CodeRepairRequest): string {
+  return `Fix the following pandas code that encountered an error:
+
+Original code:
+${originalCode}
+
+Error message:
+${errorMessage}
+
+Available columns: ${describeColumns(columns)}
+${inputsContext(inputs)}
+CRITICAL PANDAS RULES TO FIX:
+- For fillna(), always use fillna(value="some_value") or fillna(method="ffill")
+- For dropna(), be explicit about parameters
+- Use proper pandas syntax that works with pandas 2.x
+- Always return a valid DataFrame from transform_data()
+- Keep reading configurable values from the global \`parameters\` dict
+
+Generate a corrected version of the code. Respond with JSON in the same format as before:
+{"code": "...", "confidence": "high|medium|low", "parameters": [...], "explanation": "..."}`;
+}
+
+// Local models often wrap JSON in a markdown fence even when asked not to
+function parseCodeResult(text: string): CodeGenerationResult {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(json || '{}');
+}
+
+// Providers that reach a chat model with a prompt and get JSON back
+abstract class PromptedProvider implements LlmProvider {
+  abstract readonly name: string;
+
+  constructor(protected models: LlmModels) {}
+
+  protected abstract completeJson(systemInstruction: string, prompt: string, model: string): Promise<string>;
+
+  async generateCode(request: CodeGenerationRequest): Promise<CodeGenerationResult> {
+    const text = await this.completeJson(GENERATION_SYSTEM_INSTRUCTION, generationPrompt(request), this.models.generation);
+    return parseCodeResult(text);
+  }
+
+  async improveCode(request: CodeRepairRequest): Promise<CodeGenerationResult> {
+    const text = await this.completeJson(REPAIR_SYSTEM_INSTRUCTION, repairPrompt(request), this.models.repair);
+    return parseCodeResult(text);
+  }
+}
+
+export class GeminiProvider extends PromptedProvider {
+  readonly name = 'gemini';
+  private client: GoogleGenAI;
+
+  constructor(apiKey: string, models: LlmModels) {
+    super(models);
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  protected async completeJson(systemInstruction: string, prompt: string, model: string): Promise<string> {
+    const response = await this.client.models.generateContent({
+      model,
+      config: {
+        systemInstruction,
+        responseMimeType: 'application/json',
+        responseSchema: CODE_RESULT_SCHEMA
+      },
+      contents: prompt,
+    });
+    return response.text || '{}';
+  }
+}
+
+export interface OpenAICompatibleOptions {
+  // Unset for api.openai.com; e.g. http://localhost:11434/v1 for Ollama
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+// OpenAI itself or any server speaking its chat completions API (llama.cpp, Ollama, vLLM, ...)
+export class OpenAICompatibleProvider extends PromptedProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(options: OpenAICompatibleOptions, models: LlmModels) {
+    super(models);
+    this.client = new OpenAI({
+      baseURL: options.baseUrl,
+      // Local servers usually ignore the key, but the client insists on one
+      apiKey: options.apiKey || 'not-needed',
+    });
+  }
+
+  protected async completeJson(systemInstruction: string, prompt: string, model: string): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model,
+      messages: [
+        { role: 'system', content: systemInstruction },
+        { role: 'user', content: prompt }
+      ],
+      response_format: { type: 'json_object' },
+    });
+    return completion.choices[0]?.message?.content || '{}';
+  }
+}
+
+function pythonString(value: string): string {
+  return JSON.stringify(value);
+}
+
+// Finds the sheet column an instruction mentions, longest name first so
+// "Order Date" wins over "Date"
+function mentionedColumn(instruction: string, columns: ColumnInfo[]): ColumnInfo | undefined {
+  const lower = instruction.toLowerCase();
+  return [...columns]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find(column => lower.includes(column.name.toLowerCase()));
+}
+
+function transform(comment: string, body: string[]): string {
+  return [
+    'def transform_data(df):',
+    `    # ${comment}`,
+    ...body.map(line => `    ${line}`),
+  ].join('\n') + '\n';
+}
+
+// Deterministic and offline: a few keyword rules, otherwise the data is returned
+// unchanged. Lets the app be developed and exercised without an API key. The rule
+// compiler handles most common instructions before a provider is asked; these
+// rules keep the mock usable when it is called on its own.
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock';
+
+  async generateCode({ nlInstruction, columns, history }: CodeGenerationRequest): Promise<CodeGenerationResult> {
+    const previous = latestCode(history);
+    if (previous) {
+      return {
+        code: previous,
+        confidence: 'low',
+        parameters: [],
+        explanation: 'The mock provider cannot edit code, so the previous code is returned unchanged.'
+      };
+    }
+
+    const instruction = nlInstruction.toLowerCase();
+    const column = mentionedColumn(nlInstruction, columns);
+
+    if (/\b(remove|drop|delete)\b.*\bduplicate/.test(instruction) || /\bdeduplicate\b/.test(instruction)) {
+      return this.result(transform('Remove duplicate rows', ['return df.drop_duplicates()']), 'Removes duplicate rows.');
+    }
+
+    if (/\b(remove|drop|delete)\b.*\b(empty|blank)\b.*\brows?\b/.test(instruction)) {
+      return this.result(transform('Remove rows where every cell is empty', ["return df.dropna(how='all')"]), 'Removes completely empty rows.');
+    }
+
+    if (/\bsort\b/.test(instruction) && column) {
+      const ascending = !/\b(desc|descending|largest|highest|newest)\b/.test(instruction);
+      return this.result(
+        transform(`Sort by ${column.name}`, [`return df.sort_values(by=${pythonString(column.name)}, ascending=${ascending ? 'True' : 'False'})`]),
+        `Sorts the rows by ${column.name} in ${ascending ? 'ascending' : 'descending'} order.`
+      );
+    }
+
+    return {
+      code: transform(
+        `Mock provider: no rule matched "${nlInstruction.replace(/\s+/g, ' ')}", so the data is returned unchanged`,
+        ['return df.copy()']
+      ),
+      confidence: 'low',
+      parameters: [],
+      explanation: 'The mock provider did not recognise this instruction and returns the data unchanged.'
+    };
+  }
+
+  // Returning the code unchanged tells callers (such as auto-fix) that no repair was found
+  async improveCode({ originalCode }: CodeRepairRequest): Promise<CodeGenerationResult> {
+    return {
+      code: originalCode,
+      confidence: 'low',
+      parameters: [],
+      explanation: 'The mock provider cannot repair code.'
+    };
+  }
+
+  private result(code: string, explanation: string): CodeGenerationResult {
+    return { code, confidence: 'medium', parameters: [], explanation };
+  }
+}
+
+const DEFAULT_MODELS: Record<string, LlmModels> = {
+  gemini: { generation: 'gemini-2.5-flash', repair: 'gemini-2.5-pro' },
+  openai: { generation: 'gpt-4o-mini', repair: 'gpt-4o' },
+};
+
+function configuredModels(provider: string): LlmModels {
+  const defaults = DEFAULT_MODELS[provider];
+  const generation = process.env.LLM_MODEL || defaults.generation;
+  return {
+    generation,
+    // A single configured model is used for both jobs unless a repair model is given
+    repair: process.env.LLM_REPAIR_MODEL || (process.env.LLM_MODEL ? generation : defaults.repair),
+  };
+}
+
+export function createLlmProvider(): LlmProvider {
+  const provider = process.env.LLM_PROVIDER || 'gemini';
+
+  if (provider === 'gemini') {
+    return new GeminiProvider(process.env.GEMINI_API_KEY || 'default_key', configuredModels(provider));
+  }
+
+  if (provider === 'openai') {
+    return new OpenAICompatibleProvider({
+      baseUrl: process.env.OPENAI_BASE_URL,
+      apiKey: process.env.OPENAI_API_KEY,
+    }, configuredModels(provider));
+  }
+
+  if (provider === 'mock') {
+    return new MockProvider();
+  }
+
+  throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+}
+
+export const llmProvider = createLlmProvider();
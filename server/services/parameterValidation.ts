@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import type { PlaybookParameter } from '@shared/schema';
+
+export interface ParameterError {
+  field: string;
+  message: string;
+}
+
+export type ParameterValidationResult =
+  | { success: true; values: Record<string, any> }
+  | { success: false; errors: ParameterError[] };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+export interface ValidationContext {
+  // Column names of the sheet the playbook will run against
+  columnNames?: string[];
+}
+
+function schemaForType(type: string, context: ValidationContext): z.ZodTypeAny {
+  switch (type) {
+    case 'column': {
+      const columnNames = context.columnNames;
+      return z.string({ invalid_type_error: 'Must be a column name' })
+        .refine(value => !columnNames || columnNames.includes(value), 'Must be a column of the selected sheet');
+    }
+    case 'number':
+      return z.preprocess(
+        value => typeof value === 'string' && value.trim() !== '' ? Number(value) : value,
+        z.number({ invalid_type_error: 'Must be a number' }).finite('Must be a finite number')
+      );
+    case 'boolean':
+      return z.preprocess(
+        value => value === 'true' ? true : value === 'false' ? false : value,
+        z.boolean({ invalid_type_error: 'Must be true or false' })
+      );
+    case 'date':
+      return z.string({ invalid_type_error: 'Must be a date string' })
+        .regex(ISO_DATE, 'Must be an ISO date (YYYY-MM-DD)')
+        .refine(value => !isNaN(new Date(value).getTime()), 'Must be a valid date');
+    default:
+      return z.preprocess(
+        value => typeof value === 'number' ? String(value) : value,
+        z.string({ invalid_type_error: 'Must be text' })
+      );
+  }
+}
+
+// Checks supplied values against a playbook's declared parameters and fills in defaults.
+// The result is only ever handed to the generated code through its `parameters` dict.
+export function validateParameters(
+  declared: PlaybookParameter[],
+  supplied: Record<string, any> = {},
+  context: ValidationContext = {}
+): ParameterValidationResult {
+  const errors: ParameterError[] = [];
+  const values: Record<string, any> = {};
+  const declaredNames = new Set(declared.map(param => param.name));
+
+  for (const name of Object.keys(supplied)) {
+    if (!declaredNames.has(name)) {
+      errors.push({ field: name, message: 'Unknown parameter' });
+    }
+  }
+
+  for (const param of declared) {
+    let value = supplied[param.name];
+
+    if (isMissing(value)) {
+      if (!isMissing(param.defaultValue)) {
+        value = param.defaultValue;
+      } else if (param.required) {
+        errors.push({ field: param.name, message: 'Required' });
+        continue;
+      } else {
+        values[param.name] = null;
+        continue;
+      }
+    }
+
+    const parsed = schemaForType(param.type, context).safeParse(value);
+
+    if (!parsed.success) {
+      errors.push({ field: param.name, message: parsed.error.issues[0]?.message || 'Invalid value' });
+      continue;
+    }
+
+    if (param.allowedValues && param.allowedValues.length > 0 && !param.allowedValues.includes(parsed.data)) {
+      errors.push({
+        field: param.name,
+        message: `Must be one of: ${param.allowedValues.map(v => JSON.stringify(v)).join(', ')}`
+      });
+      continue;
+    }
+
+    values[param.name] = parsed.data;
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, values };
+}
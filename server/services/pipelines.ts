@@ -0,0 +1,157 @@
+import { storage } from '../storage';
+import { canAccessPlaybook } from '@shared/permissions';
+import type { PipelineStep, PipelineStepResult } from '@shared/schema';
+import { validateParameters, type ParameterError } from './parameterValidation';
+import { analyzeCode, describeBlockingFindings, type CodeFinding } from './codeAnalysis';
+import type { ExecutionResult } from './pythonExecutor';
+
+// A step with the code and parameter values it will run with
+export interface ResolvedPipelineStep {
+  stepId: string;
+  name: string;
+  enabled: boolean;
+  code: string;
+  parameters: Record<string, any>;
+}
+
+export interface PipelineStepError {
+  stepId: string;
+  message: string;
+  parameterErrors?: ParameterError[];
+  findings?: CodeFinding[];
+}
+
+export type PipelineResolution =
+  | { success: true; steps: ResolvedPipelineStep[] }
+  | { success: false; errors: PipelineStepError[] };
+
+// Looks up playbook steps, validates their parameters and runs the safety checks
+// on every enabled step. Disabled steps are kept so results can list them.
+export async function resolvePipelineSteps(
+  steps: PipelineStep[],
+  userId: string,
+  sheetColumnNames: string[]
+): Promise<PipelineResolution> {
+  const resolved: ResolvedPipelineStep[] = [];
+  const errors: PipelineStepError[] = [];
+  let isFirstEnabled = true;
+
+  for (const step of steps) {
+    let code = step.code || '';
+    let parameters = step.parameters || {};
+
+    if (step.kind === 'playbook') {
+      const playbook = await storage.getPlaybook(step.playbookId || '', userId);
+
+      if (!playbook || !canAccessPlaybook(playbook.accessRole, 'run')) {
+        errors.push({ stepId: step.id, message: `Step "${step.name}": playbook not found` });
+        continue;
+      }
+
+      // Column parameters can only be checked against the sheet for the first step
+      const validation = validateParameters(playbook.parameters, step.parameters, {
+        columnNames: isFirstEnabled ? sheetColumnNames : undefined
+      });
+
+      if (!validation.success) {
+        errors.push({ stepId: step.id, message: `Step "${step.name}": invalid parameters`, parameterErrors: validation.errors });
+        continue;
+      }
+
+      code = playbook.generatedCode;
+      parameters = validation.values;
+    }
+
+    if (step.enabled) {
+      // Later steps see columns earlier steps produced, which are unknown until run
+      const analysis = await analyzeCode(code, isFirstEnabled ? sheetColumnNames : undefined);
+      isFirstEnabled = false;
+
+      if (!analysis.safe) {
+        errors.push({
+          stepId: step.id,
+          message: `Step "${step.name}" failed safety checks: ${describeBlockingFindings(analysis)}`,
+          findings: analysis.findings
+        });
+        continue;
+      }
+    }
+
+    resolved.push({ stepId: step.id, name: step.name, enabled: step.enabled, code, parameters });
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, steps: resolved };
+}
+
+// Lines up the worker's per-step output with the pipeline's steps, disabled ones
+// included. Only enabled steps were sent to the worker, in the same order.
+export function summarizePipelineRun(
+  steps: ResolvedPipelineStep[],
+  result: ExecutionResult,
+  inputRowCount: number
+): { stepResults: PipelineStepResult[]; error?: string } {
+  const outputs = result.steps || [];
+  const stepResults: PipelineStepResult[] = [];
+  let rowCount: number | undefined = inputRowCount;
+  let executedIndex = 0;
+  let error: string | undefined;
+
+  for (const step of steps) {
+    if (!step.enabled) {
+      stepResults.push({ stepId: step.stepId, name: step.name, status: 'skipped' });
+      continue;
+    }
+
+    const output = outputs[executedIndex++];
+
+    if (!output || error) {
+      // The worker died before reporting this step, or an earlier step failed
+      const failed = !error && !result.success;
+      if (failed) {
+        error = `Step "${step.name}" failed: ${result.error || 'Unknown error'}`;
+      }
+      stepResults.push({
+        stepId: step.stepId,
+        name: step.name,
+        status: failed ? 'failed' : 'not_run',
+        inputRowCount: failed ? rowCount : undefined,
+        error: failed ? result.error : undefined
+      });
+      continue;
+    }
+
+    if (output.error) {
+      error = `Step "${step.name}" failed: ${output.error}`;
+      stepResults.push({
+        stepId: step.stepId,
+        name: step.name,
+        status: 'failed',
+        inputRowCount: rowCount,
+        executionTimeMs: output.executionTimeMs,
+        error: output.error
+      });
+      continue;
+    }
+
+    stepResults.push({
+      stepId: step.stepId,
+      name: step.name,
+      status: 'completed',
+      inputRowCount: rowCount,
+      outputRowCount: output.rowCount,
+      executionTimeMs: output.executionTimeMs,
+      preview: output.preview
+    });
+    rowCount = output.rowCount;
+  }
+
+  return { stepResults, error };
+}
+
+// What a pipeline run stores as its generated code: every enabled step in order
+export function describePipelineCode(steps: ResolvedPipelineStep[]): string {
+  return steps
+    .filter(step => step.enabled)
+    .map((step, index) => `# Step ${index + 1}: ${step.name}\n${step.code.trim()}\n`)
+    .join('\n');
+}
@@ -0,0 +1,57 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import * as XLSX from 'xlsx';
+import { loadSheetRows } from './fileProcessor';
+import { executePandasCode } from './pythonExecutor';
+import { PYTHON_COMMAND } from './pythonSandbox';
+import { pythonWorkerPool } from './pythonWorkerPool';
+
+// Why the workers cannot run here, when PYTHON_COMMAND lacks pandas or pyarrow
+let pythonUnavailable: string | undefined;
+
+before(() => {
+  const check = spawnSync(PYTHON_COMMAND, ['-c', 'import pandas, pyarrow'], { encoding: 'utf-8' });
+  if (check.error || check.status !== 0) {
+    pythonUnavailable = `PYTHON_COMMAND (${PYTHON_COMMAND}) cannot import pandas and pyarrow; set SANDBOX_PYTHON to a Python that can`;
+  }
+});
+
+after(() => pythonWorkerPool.shutdown());
+
+// An .xlsx file whose Shipped column holds Excel dates: serial day numbers with a date format
+function workbookWithDates(): Buffer {
+  const sheet = XLSX.utils.aoa_to_sheet([['Order', 'Shipped'], [1, 45322], [2, 45323.5], [3, null]]);
+  sheet.B2.z = 'yyyy-mm-dd';
+  sheet.B3.z = 'yyyy-mm-dd hh:mm';
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Orders');
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+test('Excel date cells are read as dates', async () => {
+  const rows = await loadSheetRows(workbookWithDates(), 'orders.xlsx', 'Orders');
+  assert.deepEqual(rows.map(row => row.Shipped?.toISOString() ?? null), [
+    '2024-01-31T00:00:00.000Z',
+    '2024-02-01T12:00:00.000Z',
+    null,
+  ]);
+});
+
+test('Excel date columns reach pandas as datetimes', async (t) => {
+  if (pythonUnavailable) {
+    t.skip(pythonUnavailable);
+    return;
+  }
+
+  const rows = await loadSheetRows(workbookWithDates(), 'orders.xlsx', 'Orders');
+  const result = await executePandasCode('def transform_data(df):\n    return df', rows);
+
+  assert.equal(result.success, true, result.error);
+  assert.match(result.summary!.dtypes.Shipped, /^datetime64/);
+  assert.deepEqual(result.data!.map(row => row.Shipped?.toISOString() ?? null), [
+    '2024-01-31T00:00:00.000Z',
+    '2024-02-01T12:00:00.000Z',
+    null,
+  ]);
+});
@@ -0,0 +1,224 @@
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, spawnSync } from 'child_process';
+import {
+  PYTHON_ARGS,
+  PYTHON_COMMAND,
+  SANDBOX_ENV,
+  SANDBOX_PRELUDE,
+  createSandboxDir,
+  removeSandboxDir,
+  sandboxLimits,
+} from './pythonSandbox';
+
+// Enters the sandbox the way a worker does, then runs the code from stdin in
+// the sandbox namespace and reports whether it completed or what stopped it
+const HARNESS = `${SANDBOX_PRELUDE}
+import json
+
+code = sys.stdin.read()
+enter_sandbox(json.loads(sys.argv[1]))
+try:
+    exec(compile(code, '<transform>', 'exec'), sandbox_namespace({}))
+    print('COMPLETED')
+except BaseException as e:
+    print('BLOCKED ' + format_error(e))
+`;
+
+// Reaches os through a class every interpreter has loaded, without importing it
+const OS_GLOBALS = `
+os_globals = next(
+    cls for cls in ().__class__.__base__.__subclasses__() if cls.__name__ == '_wrap_close'
+).__init__.__globals__
+`;
+
+// Why the suite cannot run here, when PYTHON_COMMAND lacks pandas; each test
+// is then skipped with this reason instead of failing on the import
+let pythonUnavailable: string | undefined;
+
+before(() => {
+  const check = spawnSync(PYTHON_COMMAND, ['-c', 'import pandas'], { encoding: 'utf-8' });
+  if (check.error || check.status !== 0) {
+    pythonUnavailable = `PYTHON_COMMAND (${PYTHON_COMMAND}) cannot import pandas; set SANDBOX_PYTHON to a Python that can`;
+  }
+});
+
+function sandboxTest(name: string, fn: () => Promise<void>): void {
+  test(name, async (t) => {
+    if (pythonUnavailable) {
+      t.skip(pythonUnavailable);
+      return;
+    }
+    await fn();
+  });
+}
+
+async function runInSandbox(code: string): Promise<string> {
+  const dir = await createSandboxDir();
+  try {
+    return await new Promise((resolve, reject) => {
+      const python = spawn(PYTHON_COMMAND, [...PYTHON_ARGS, '-c', HARNESS, JSON.stringify(sandboxLimits)], {
+        cwd: dir,
+        env: SANDBOX_ENV,
+      });
+      let stdout = '';
+      let stderr = '';
+      python.stdout.on('data', chunk => { stdout += chunk; });
+      python.stderr.on('data', chunk => { stderr += chunk; });
+      python.on('error', reject);
+      python.on('close', () => {
+        const lines = stdout.trim().split('\n');
+        const outcome = lines[lines.length - 1];
+        if (!outcome?.startsWith('COMPLETED') && !outcome?.startsWith('BLOCKED')) {
+          reject(new Error(`Sandbox harness failed: ${stderr || stdout}`));
+        } else {
+          resolve(stdout.trim());
+        }
+      });
+      python.stdin.end(code);
+    });
+  } finally {
+    await removeSandboxDir(dir);
+  }
+}
+
+const escapeAttempts: Array<{ name: string; code: string; blockedBy: RegExp }> = [
+  {
+    name: 'importing importlib',
+    code: `import importlib\nimportlib.import_module('os').system('true')`,
+    blockedBy: /ImportError: Module 'importlib' is not allowed/,
+  },
+  {
+    name: 'calling __import__ directly',
+    code: `__import__('os').system('true')`,
+    blockedBy: /ImportError: Module 'os' is not allowed/,
+  },
+  {
+    name: "the real import through __builtins__",
+    code: `__builtins__['__import__']('subprocess')`,
+    blockedBy: /ImportError: Module 'subprocess' is not allowed/,
+  },
+  {
+    name: 'os.system reached through __subclasses__',
+    code: `${OS_GLOBALS}\nos_globals['system']('true')`,
+    blockedBy: /PermissionError: 'os.system' is not allowed/,
+  },
+  {
+    name: 'loading posix through BuiltinImporter',
+    code: `
+importer = next(cls for cls in ().__class__.__base__.__subclasses__() if cls.__name__ == 'BuiltinImporter')
+importer.load_module('posix').system('true')
+`,
+    blockedBy: /PermissionError: 'os.system' is not allowed/,
+  },
+  {
+    name: 'the open builtin',
+    code: `open('/etc/passwd').read()`,
+    blockedBy: /NameError/,
+  },
+  {
+    name: 'the unrestricted builtins reached through __subclasses__',
+    code: `${OS_GLOBALS}\nos_globals['__builtins__']['open']('/etc/passwd').read()`,
+    blockedBy: /PermissionError: Access to '\/etc\/passwd' is not allowed/,
+  },
+  {
+    name: 'importing pathlib',
+    code: `import pathlib\npathlib.Path('/etc/passwd').read_text()`,
+    blockedBy: /ImportError: Module 'pathlib' is not allowed/,
+  },
+  {
+    name: "pandas' own Path",
+    code: `pd.io.common.Path('/etc/passwd').read_text()`,
+    blockedBy: /PermissionError: Access to '\/etc\/passwd' is not allowed/,
+  },
+  {
+    name: 'reading a system file with pandas',
+    code: `pd.read_csv('/etc/passwd')`,
+    blockedBy: /PermissionError: Access to '\/etc\/passwd' is not allowed/,
+  },
+  {
+    name: 'writing outside the sandbox directory with pandas',
+    code: `pd.DataFrame({'a': [1]}).to_csv('/tmp/sandbox-escape.csv')`,
+    blockedBy: /PermissionError: Access to '\/tmp\/sandbox-escape.csv' is not allowed/,
+  },
+  {
+    name: 'importing socket',
+    code: `import socket\nsocket.create_connection(('127.0.0.1', 9))`,
+    blockedBy: /ImportError: Module 'socket' is not allowed/,
+  },
+  {
+    name: 'opening a socket through a loaded module',
+    code: `${OS_GLOBALS}\nos_globals['sys'].modules['importlib'].import_module('socket').socket()`,
+    blockedBy: /PermissionError: 'socket.__new__' is not allowed/,
+  },
+  {
+    name: 'fetching a URL with pandas',
+    code: `pd.read_csv('http://127.0.0.1:9/data.csv')`,
+    blockedBy: /PermissionError: 'urllib.Request' is not allowed/,
+  },
+  {
+    name: 'importing subprocess',
+    code: `import subprocess\nsubprocess.run(['true'])`,
+    blockedBy: /ImportError: Module 'subprocess' is not allowed/,
+  },
+  {
+    name: 'subprocess reached through a loaded module',
+    code: `${OS_GLOBALS}\nos_globals['sys'].modules['importlib'].import_module('subprocess').run(['true'])`,
+    blockedBy: /PermissionError: 'subprocess.Popen' is not allowed/,
+  },
+  {
+    name: 'importing _posixsubprocess',
+    code: `import _posixsubprocess`,
+    blockedBy: /ImportError: Module '_posixsubprocess' is not allowed/,
+  },
+  {
+    // fork_exec raises no audit event, so only the seccomp filter stops it
+    name: '_posixsubprocess.fork_exec through multiprocessing',
+    code: `
+${OS_GLOBALS}
+util = os_globals['sys'].modules['importlib'].import_module('multiprocessing.util')
+util.spawnv_passfds(b'/bin/true', [b'/bin/true'], [])
+`,
+    blockedBy: /PermissionError: \[Errno 1\] Operation not permitted/,
+  },
+  {
+    name: 'os.fork reached through __subclasses__',
+    code: `${OS_GLOBALS}\nos_globals['fork']()`,
+    blockedBy: /PermissionError: 'os.fork' is not allowed/,
+  },
+  {
+    name: 'importing os for its environment',
+    code: `import os\nos.environ`,
+    blockedBy: /ImportError: Module 'os' is not allowed/,
+  },
+];
+
+for (const attempt of escapeAttempts) {
+  sandboxTest(`sandbox blocks ${attempt.name}`, async () => {
+    const outcome = await runInSandbox(attempt.code);
+    assert.match(outcome, /^BLOCKED /m);
+    assert.match(outcome, attempt.blockedBy);
+  });
+}
+
+sandboxTest("the server's environment does not reach os.environ", async () => {
+  process.env.SANDBOX_TEST_SECRET = 'do-not-leak';
+  try {
+    const outcome = await runInSandbox(`${OS_GLOBALS}\nprint(sorted(os_globals['environ']))`);
+    assert.match(outcome, /COMPLETED$/);
+    assert.doesNotMatch(outcome, /SANDBOX_TEST_SECRET|DATABASE_URL|do-not-leak/);
+  } finally {
+    delete process.env.SANDBOX_TEST_SECRET;
+  }
+});
+
+sandboxTest('libraries can still start threads in the sandbox', async () => {
+  const outcome = await runInSandbox(`
+${OS_GLOBALS}
+threading = os_globals['sys'].modules['importlib'].import_module('threading')
+thread = threading.Thread(target=lambda: None)
+thread.start()
+thread.join()
+`);
+  assert.match(outcome, /COMPLETED$/);
+});
@@ -0,0 +1,259 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export interface SandboxLimits {
+  // Per execution; long-lived workers also get a hard cap over their whole lifetime
+  cpuSeconds: number;
+  cpuHardSeconds?: number;
+  memoryMb: number;
+  fileSizeMb: number;
+}
+
+export const sandboxLimits: SandboxLimits = {
+  cpuSeconds: parseInt(process.env.SANDBOX_CPU_SECONDS || '20', 10),
+  memoryMb: parseInt(process.env.SANDBOX_MEMORY_MB || '2048', 10),
+  fileSizeMb: parseInt(process.env.SANDBOX_FILE_SIZE_MB || '200', 10),
+};
+
+// -I isolates the interpreter from PYTHON* variables, the user site directory
+// and the script's own directory
+export const PYTHON_COMMAND = process.env.SANDBOX_PYTHON || '/usr/bin/python3';
+export const PYTHON_ARGS = ['-I'];
+
+// Nothing from the server's environment (DATABASE_URL, API keys, ...) reaches Python
+export const SANDBOX_ENV: NodeJS.ProcessEnv = {};
+
+// The only modules generated code may import itself; library internals are
+// free to import what they need but are still subject to the audit hook
+export const ALLOWED_MODULES = [
+  'pandas', 'numpy', 'math', 'cmath', 'statistics', 'decimal', 'fractions', 'numbers', 'random',
+  'datetime', 'time', 'calendar', 'dateutil', 'pytz', 'zoneinfo',
+  're', 'string', 'textwrap', 'unicodedata', 'json',
+  'collections', 'itertools', 'functools', 'operator', 'copy', 'enum', 'dataclasses', 'typing', 'warnings',
+];
+
+// Each Python process gets its own 0700 directory; it is the only place Python may write
+export async function createSandboxDir(): Promise<string> {
+  return await fs.mkdtemp(join(tmpdir(), 'pandas-sandbox-'));
+}
+
+export async function removeSandboxDir(dir: string): Promise<void> {
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+export function describeSandboxExit(signal: NodeJS.Signals | null): string | undefined {
+  switch (signal) {
+    case 'SIGXCPU':
+      return `Execution exceeded the CPU time limit of ${sandboxLimits.cpuSeconds} seconds`;
+    case 'SIGKILL':
+      return 'Execution was killed, most likely for exceeding its resource limits';
+    case 'SIGTERM':
+      return 'Execution timed out';
+    default:
+      return undefined;
+  }
+}
+
+// Python that runs before any generated code. enter_sandbox() applies the rlimits,
+// a seccomp filter that stops the process from starting others, and an audit hook
+// (neither can be removed again) that blocks process creation, sockets, ctypes and
+// any file access outside the sandbox directory.
+// sandbox_namespace() builds the globals generated code executes in: restricted
+// builtins and an import allowlist.
+export const SANDBOX_PRELUDE = `
+import builtins
+import ctypes
+import errno
+import os
+import resource
+import site
+import sys
+import pandas as pd
+import numpy as np
+from datetime import datetime, timedelta
+import warnings
+warnings.filterwarnings('ignore')
+
+SANDBOX_DIR = os.path.realpath(os.getcwd())
+
+ALLOWED_MODULES = frozenset(${JSON.stringify(ALLOWED_MODULES)})
+
+BLOCKED_BUILTINS = frozenset({
+    'open', 'eval', 'exec', 'compile', 'input', 'breakpoint', 'help',
+    'exit', 'quit', 'globals', 'locals', 'vars', '__loader__', '__spec__',
+})
+
+BLOCKED_EVENT_PREFIXES = (
+    'socket.', 'subprocess.', 'ctypes.', 'shutil.', 'pty.', 'urllib.', 'http.',
+    'ftplib.', 'smtplib.', 'telnetlib.', 'webbrowser.', 'winreg.',
+    'os.system', 'os.exec', 'os.posix_spawn', 'os.spawn', 'os.fork', 'os.forkpty',
+    'os.kill', 'os.killpg', 'os.putenv', 'os.unsetenv', 'os.chdir', 'os.chroot',
+    'sys._current_frames', 'sys.settrace', 'sys.setprofile', 'sys.remote_exec',
+)
+
+PATH_WRITE_EVENTS = frozenset({
+    'os.remove', 'os.rename', 'os.rmdir', 'os.mkdir', 'os.chmod', 'os.chown',
+    'os.truncate', 'os.utime', 'os.link', 'os.symlink', 'os.setxattr', 'os.removexattr',
+})
+
+WRITE_FLAGS = os.O_WRONLY | os.O_RDWR | os.O_APPEND | os.O_CREAT | os.O_TRUNC
+
+# Python's own installation stays readable so libraries can import lazily
+READ_ROOTS = tuple(sorted({
+    os.path.realpath(path)
+    for path in [sys.prefix, sys.base_prefix, sys.exec_prefix, sys.base_exec_prefix,
+                 *sys.path, *site.getsitepackages(), '/usr/share/zoneinfo', SANDBOX_DIR]
+    if path and os.path.isdir(path)
+}))
+WRITE_ROOTS = (SANDBOX_DIR,)
+
+
+def _inside(path, roots):
+    if isinstance(path, int):
+        return True
+    if path is None:
+        path = '.'
+    real = os.path.realpath(os.fsdecode(path))
+    return any(real == root or real.startswith(root + os.sep) for root in roots)
+
+
+def _audit(event, args):
+    if event.startswith(BLOCKED_EVENT_PREFIXES):
+        raise PermissionError(f"'{event}' is not allowed in the sandbox")
+
+    if event == 'open':
+        path, mode, flags = args
+        writing = bool((flags or 0) & WRITE_FLAGS) or (mode is not None and any(c in mode for c in 'wax+'))
+        if not _inside(path, WRITE_ROOTS if writing else READ_ROOTS):
+            raise PermissionError(f"Access to '{path}' is not allowed in the sandbox")
+    elif event in ('os.listdir', 'os.scandir'):
+        if not _inside(args[0], READ_ROOTS):
+            raise PermissionError(f"Listing '{args[0]}' is not allowed in the sandbox")
+    elif event in PATH_WRITE_EVENTS:
+        for arg in args:
+            if isinstance(arg, (str, bytes, os.PathLike)) and not _inside(arg, WRITE_ROOTS):
+                raise PermissionError(f"Changing '{arg}' is not allowed in the sandbox")
+
+
+# Starting processes is stopped by syscall, not by the audit hook alone:
+# _posixsubprocess.fork_exec raises no audit event, and RLIMIT_NPROC neither binds
+# root nor spares the threads numpy and Arrow start. The filter fails fork, vfork,
+# execve, execveat and any clone that does not create a thread with EPERM. clone3
+# gets ENOSYS so the C library falls back to clone, whose flags a filter can read.
+SECCOMP_ARCHES = {
+    # machine: (AUDIT_ARCH_*, syscall numbers)
+    'x86_64': (0xc000003e, {'fork': 57, 'vfork': 58, 'execve': 59, 'execveat': 322, 'clone': 56, 'clone3': 435}),
+    'aarch64': (0xc00000b7, {'execve': 221, 'execveat': 281, 'clone': 220, 'clone3': 435}),
+}
+
+BPF_LD, BPF_JEQ, BPF_JGE, BPF_JSET, BPF_RET = 0x20, 0x15, 0x35, 0x45, 0x06
+SECCOMP_RET_ALLOW = 0x7fff0000
+SECCOMP_RET_ERRNO = 0x00050000
+CLONE_THREAD = 0x00010000
+PR_SET_SECCOMP, PR_SET_NO_NEW_PRIVS, SECCOMP_MODE_FILTER = 22, 38, 2
+
+
+class _SockFilter(ctypes.Structure):
+    _fields_ = [('code', ctypes.c_ushort), ('jt', ctypes.c_ubyte), ('jf', ctypes.c_ubyte), ('k', ctypes.c_uint)]
+
+
+class _SockFprog(ctypes.Structure):
+    _fields_ = [('len', ctypes.c_ushort), ('filter', ctypes.POINTER(_SockFilter))]
+
+
+def _seccomp_program(machine):
+    arch, nr = SECCOMP_ARCHES[machine]
+    # (opcode, operand, label when true, label when false); None goes on to the next step
+    steps = [
+        (BPF_LD, 4, None, None),  # seccomp_data.arch
+        (BPF_JEQ, arch, None, 'deny'),
+        (BPF_LD, 0, None, None),  # seccomp_data.nr
+        (BPF_JGE, 0x40000000, 'deny', None),  # x32 syscalls on x86_64
+        *[(BPF_JEQ, nr[name], 'deny', None) for name in ('fork', 'vfork', 'execve', 'execveat') if name in nr],
+        (BPF_JEQ, nr['clone3'], 'nosys', None),
+        (BPF_JEQ, nr['clone'], None, 'allow'),
+        (BPF_LD, 16, None, None),  # low word of clone's flags
+        (BPF_JSET, CLONE_THREAD, 'allow', 'deny'),
+    ]
+    returns = {
+        'allow': SECCOMP_RET_ALLOW,
+        'deny': SECCOMP_RET_ERRNO | errno.EPERM,
+        'nosys': SECCOMP_RET_ERRNO | errno.ENOSYS,
+    }
+    targets = {label: len(steps) + i for i, label in enumerate(returns)}
+
+    program = []
+    for position, (code, operand, if_true, if_false) in enumerate(steps):
+        jump = lambda label: 0 if label is None else targets[label] - position - 1
+        program.append((code, jump(if_true), jump(if_false), operand))
+    return program + [(BPF_RET, 0, 0, value) for value in returns.values()]
+
+
+def _forbid_process_creation():
+    machine = os.uname().machine
+    if machine not in SECCOMP_ARCHES:
+        raise RuntimeError(f'No process filter for {machine}; refusing to run generated code')
+
+    program = _seccomp_program(machine)
+    filters = (_SockFilter * len(program))(*(_SockFilter(*step) for step in program))
+    fprog = _SockFprog(len(program), filters)
+    libc = ctypes.CDLL(None, use_errno=True)
+    libc.prctl.argtypes = [ctypes.c_int, ctypes.c_ulong, ctypes.c_void_p, ctypes.c_ulong, ctypes.c_ulong]
+    if (libc.prctl(PR_SET_NO_NEW_PRIVS, 1, None, 0, 0) != 0
+            or libc.prctl(PR_SET_SECCOMP, SECCOMP_MODE_FILTER, ctypes.addressof(fprog), 0, 0) != 0):
+        error = ctypes.get_errno()
+        raise OSError(error, f'Could not install the process filter: {os.strerror(error)}')
+
+
+def _set_limit(limit, value, hard=None):
+    try:
+        resource.setrlimit(limit, (value, value if hard is None else hard))
+    except (ValueError, OSError):
+        pass
+
+
+def enter_sandbox(limits):
+    _set_limit(resource.RLIMIT_CPU, limits['cpuSeconds'], limits.get('cpuHardSeconds'))
+    _set_limit(resource.RLIMIT_AS, limits['memoryMb'] * 1024 * 1024)
+    _set_limit(resource.RLIMIT_FSIZE, limits['fileSizeMb'] * 1024 * 1024)
+    _set_limit(resource.RLIMIT_CORE, 0)
+    _forbid_process_creation()
+    sys.addaudithook(_audit)
+
+
+# Gives the next execution in a long-lived process a fresh CPU allowance, never past the hard cap
+def reset_cpu_budget(seconds):
+    usage = resource.getrusage(resource.RUSAGE_SELF)
+    _, hard = resource.getrlimit(resource.RLIMIT_CPU)
+    budget = int(usage.ru_utime + usage.ru_stime) + seconds
+    _set_limit(resource.RLIMIT_CPU, budget if hard == resource.RLIM_INFINITY else min(budget, hard), hard)
+
+
+_original_import = builtins.__import__
+
+
+def _guarded_import(name, globals=None, locals=None, fromlist=(), level=0):
+    if level != 0 or name.split('.')[0] not in ALLOWED_MODULES:
+        raise ImportError(f"Module '{name}' is not allowed in the sandbox")
+    return _original_import(name, globals, locals, fromlist, level)
+
+
+def sandbox_namespace(parameters):
+    safe_builtins = {name: value for name, value in vars(builtins).items() if name not in BLOCKED_BUILTINS}
+    safe_builtins['__import__'] = _guarded_import
+    return {
+        '__builtins__': safe_builtins,
+        '__name__': '__transform__',
+        'pd': pd,
+        'np': np,
+        'datetime': datetime,
+        'timedelta': timedelta,
+        'parameters': parameters,
+    }
+
+
+def format_error(error):
+    message = str(error)
+    return f'{type(error).__name__}: {message}' if message else type(error).__name__
+`;
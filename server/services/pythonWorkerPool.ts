@@ -0,0 +1,510 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import {
+  SANDBOX_PRELUDE,
+  SANDBOX_ENV,
+  PYTHON_COMMAND,
+  PYTHON_ARGS,
+  sandboxLimits,
+  createSandboxDir,
+  removeSandboxDir,
+  describeSandboxExit
+} from './pythonSandbox';
+import { RESULT_DIFF_SCRIPT } from './resultDiff';
+import type { ResultDiff } from '@shared/schema';
+
+export interface WorkerStep {
+  code: string;
+  parameters: Record<string, any>;
+}
+
+export interface WorkerJob {
+  // Applied in order; each step's transform_data receives the previous step's result
+  steps: WorkerStep[];
+  // Arrow IPC stream of the input sheet
+  data: Uint8Array;
+  // Extra sheets for transform_data(df, inputs), as Arrow IPC streams
+  inputs: Array<{ name: string; data: Uint8Array; dtypes: Record<string, string> }>;
+  columnRenames: Record<string, string>;
+  // Column -> pandas dtype, for columns whose type the user set
+  dtypes: Record<string, string>;
+  // Number of rows of each step's output to send back; 0 for none
+  stepPreviewRows: number;
+}
+
+export interface WorkerStepOutput {
+  // Absent for the step that failed
+  rowCount?: number;
+  executionTimeMs: number;
+  preview?: Array<Record<string, any>>;
+  error?: string;
+}
+
+export interface WorkerOutput {
+  success: boolean;
+  // Arrow IPC stream of the result; empty when the job failed
+  data: Uint8Array;
+  summary?: {
+    originalRowCount: number;
+    resultRowCount: number;
+    rowsAffected: number;
+    dtypes: Record<string, string>;
+    // Absent when no diff could be computed
+    diff?: ResultDiff;
+  };
+  // One entry per step that ran, up to and including a failed one
+  steps?: WorkerStepOutput[];
+  error?: string;
+  // Traceback through the generated code only, for failed jobs
+  traceback?: string;
+}
+
+export interface WorkerRunOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const EMPTY = new Uint8Array(0);
+const STDERR_TAIL_LENGTH = 4000;
+
+// Frames are a 4-byte big-endian length followed by that many bytes. Every message,
+// in both directions, is a UTF-8 JSON frame followed by an Arrow IPC stream frame,
+// so dtypes survive the trip; a job adds one more Arrow frame per extra input. The real stdout is kept for frames and fd 1 is
+// pointed at stderr, so print() in generated code cannot corrupt the protocol.
+const WORKER_SCRIPT = `${SANDBOX_PRELUDE}
+import inspect
+import json
+import linecache
+import struct
+import time
+import traceback
+import pyarrow as pa
+
+pa.set_memory_pool(pa.system_memory_pool())
+${RESULT_DIFF_SCRIPT}
+
+limits = json.loads(sys.argv[1])
+protocol_in = sys.stdin.buffer
+protocol_out = os.fdopen(os.dup(1), 'wb')
+os.dup2(2, 1)
+sys.stdout = sys.stderr
+
+
+def read_frame():
+    header = protocol_in.read(4)
+    if len(header) < 4:
+        return None
+    (length,) = struct.unpack('>I', header)
+    return protocol_in.read(length)
+
+
+def write_message(message, table_bytes=b''):
+    payload = json.dumps(message, default=str).encode('utf-8')
+    protocol_out.write(struct.pack('>I', len(payload)) + payload)
+    protocol_out.write(struct.pack('>I', len(table_bytes)) + table_bytes)
+    protocol_out.flush()
+
+
+# Types the Node side turns back into numbers, booleans, strings and dates
+ARROW_TYPE_CHECKS = (
+    pa.types.is_integer, pa.types.is_floating, pa.types.is_boolean, pa.types.is_string,
+    pa.types.is_large_string, pa.types.is_timestamp, pa.types.is_date, pa.types.is_null,
+)
+
+
+def is_missing(value):
+    try:
+        return bool(pd.isna(value))
+    except (TypeError, ValueError):
+        return False
+
+
+def column_to_arrow(series):
+    try:
+        array = pa.array(series, from_pandas=True)
+        if pa.types.is_dictionary(array.type):
+            array = array.dictionary_decode()
+        if any(check(array.type) for check in ARROW_TYPE_CHECKS):
+            return array
+    except (pa.ArrowInvalid, pa.ArrowTypeError, pa.ArrowNotImplementedError):
+        pass
+    # Mixed or unusual values (decimals, timedeltas, lists, ...) travel as text
+    return pa.array([None if is_missing(value) else str(value) for value in series], type=pa.string())
+
+
+def to_arrow(df):
+    arrays = [column_to_arrow(df.iloc[:, i]) for i in range(df.shape[1])]
+    table = pa.Table.from_arrays(arrays, names=[str(name) for name in df.columns])
+    sink = pa.BufferOutputStream()
+    with pa.ipc.new_stream(sink, table.schema) as writer:
+        writer.write_table(table)
+    return sink.getvalue().to_pybytes()
+
+
+# Nothing a job writes survives into the next one
+def clear_sandbox_dir(path=SANDBOX_DIR):
+    for entry in os.scandir(path):
+        if entry.is_dir(follow_symlinks=False):
+            clear_sandbox_dir(entry.path)
+            os.rmdir(entry.path)
+        else:
+            os.remove(entry.path)
+
+
+# Frames inside the worker itself mean nothing to whoever has to fix the code
+def format_traceback(error):
+    frames = [frame for frame in traceback.extract_tb(error.__traceback__) if frame.filename.startswith('<transform')]
+    lines = ['Traceback (most recent call last):\\n', *traceback.format_list(frames)] if frames else []
+    return ''.join(lines + traceback.format_exception_only(type(error), error))
+
+
+def preview_rows(df, count):
+    if count <= 0:
+        return []
+    return json.loads(df.head(count).to_json(orient='records', date_format='iso', default_handler=str))
+
+
+def read_table(table_bytes):
+    return pa.ipc.open_stream(table_bytes).read_all().to_pandas()
+
+
+# Casts the columns the user typed; values that do not convert become missing
+def apply_dtypes(df, dtypes):
+    for column, dtype in dtypes.items():
+        if column not in df.columns:
+            continue
+        if dtype == 'datetime':
+            df[column] = pd.to_datetime(df[column], errors='coerce')
+        elif dtype == 'float64':
+            df[column] = pd.to_numeric(df[column], errors='coerce').astype(dtype)
+        else:
+            df[column] = df[column].astype(dtype)
+    return df
+
+
+# transform_data(df, inputs) gets the extra input sheets; transform_data(df) does not
+def accepts_inputs(function):
+    try:
+        parameters = inspect.signature(function).parameters.values()
+    except (TypeError, ValueError):
+        return False
+    positional = [p for p in parameters if p.kind in (p.POSITIONAL_ONLY, p.POSITIONAL_OR_KEYWORD, p.VAR_POSITIONAL)]
+    return len(positional) >= 2 or any(p.kind == p.VAR_POSITIONAL for p in positional)
+
+
+def run_step(index, step, df, inputs):
+    filename = '<transform>' if index == 0 else f'<transform:{index + 1}>'
+    # Lets tracebacks quote the generated code's source lines
+    linecache.cache[filename] = (len(step['code']), None, step['code'].splitlines(True), filename)
+
+    # Every step gets a fresh namespace
+    namespace = sandbox_namespace(step['parameters'])
+    exec(compile(step['code'], filename, 'exec'), namespace)
+
+    if 'transform_data' not in namespace:
+        raise ValueError("Code must define a transform_data(df) function")
+
+    transform = namespace['transform_data']
+    # A copy, so a step that reassigns a key does not change what later steps get
+    result_df = transform(df, dict(inputs)) if accepts_inputs(transform) else transform(df)
+
+    if not isinstance(result_df, pd.DataFrame):
+        raise ValueError("transform_data must return a pandas DataFrame")
+
+    return result_df
+
+
+def run_job(job, table_bytes, input_frames):
+    df = apply_dtypes(read_table(table_bytes), job['dtypes']).rename(columns=job['columnRenames'])
+    inputs = {
+        name: apply_dtypes(read_table(frame), dtypes)
+        for name, dtypes, frame in zip(job['inputNames'], job['inputDtypes'], input_frames)
+    }
+    # Kept apart from df, which the code may change in place
+    original = df.copy()
+    step_outputs = []
+
+    for index, step in enumerate(job['steps']):
+        # Each step gets the full CPU allowance of a single execution
+        reset_cpu_budget(limits['cpuSeconds'])
+        started = time.perf_counter()
+        try:
+            df = run_step(index, step, df, inputs)
+        except BaseException as e:
+            step_outputs.append({'executionTimeMs': round((time.perf_counter() - started) * 1000), 'error': format_error(e)})
+            return {
+                'success': False,
+                'error': format_error(e),
+                'traceback': format_traceback(e),
+                'steps': step_outputs,
+            }, b''
+        step_outputs.append({
+            'rowCount': len(df),
+            'executionTimeMs': round((time.perf_counter() - started) * 1000),
+            'preview': preview_rows(df, job['stepPreviewRows']),
+        })
+
+    summary = {
+        'originalRowCount': len(original),
+        'resultRowCount': len(df),
+        'rowsAffected': abs(len(original) - len(df)),
+        'dtypes': {str(name): str(dtype) for name, dtype in df.dtypes.items()},
+    }
+
+    reset_cpu_budget(limits['cpuSeconds'])
+    try:
+        diff = result_diff(original, df)
+    except Exception:
+        # The diff is a review aid; failing to compute one must not fail the run
+        diff = None
+    if diff:
+        summary['diff'] = diff
+        summary['rowsAffected'] = diff['rowsRemoved'] + diff['rowsAdded'] + diff['rowsChanged']
+
+    return {
+        'success': True,
+        'summary': summary,
+        'steps': step_outputs,
+    }, to_arrow(df)
+
+
+enter_sandbox(limits)
+
+while True:
+    header = read_frame()
+    table_bytes = read_frame()
+    if header is None or table_bytes is None:
+        break
+    job = json.loads(header)
+    input_frames = [read_frame() for _ in job['inputNames']]
+    if any(frame is None for frame in input_frames):
+        break
+
+    reset_cpu_budget(limits['cpuSeconds'])
+    try:
+        output, result_bytes = run_job(job, table_bytes, input_frames)
+    except BaseException as e:
+        output, result_bytes = {'success': False, 'error': format_error(e), 'traceback': format_traceback(e)}, b''
+    header = table_bytes = job = input_frames = None
+
+    try:
+        clear_sandbox_dir()
+    except OSError:
+        pass
+    write_message(output, result_bytes)
+`;
+
+function frame(payload: Uint8Array): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(payload.length, 0);
+  return Buffer.concat([header, payload]);
+}
+
+// One long-lived Python process with pandas already imported
+class PythonWorker {
+  jobsRun = 0;
+  private exited = false;
+  private killed = false;
+  private stdoutBuffer = Buffer.alloc(0);
+  // Complete frames of a message that is still arriving
+  private frames: Buffer[] = [];
+  private stderrTail = '';
+  // Settles the job currently running in this worker, if any
+  private settle?: (output: WorkerOutput) => void;
+
+  private constructor(
+    private process: ChildProcessWithoutNullStreams,
+    private sandboxDir: string
+  ) {
+    process.stdout.on('data', (chunk: Buffer) => this.onStdout(chunk));
+    process.stderr.on('data', (chunk: Buffer) => {
+      this.stderrTail = (this.stderrTail + chunk.toString()).slice(-STDERR_TAIL_LENGTH);
+    });
+    process.on('exit', (_code, signal) => this.onExit(signal));
+    process.on('error', (error) => {
+      this.stderrTail = `Python worker error: ${error.message}`;
+      this.onExit(null);
+    });
+    // A dead worker must not crash the server with EPIPE
+    process.stdin.on('error', () => {});
+  }
+
+  static async start(maxJobs: number): Promise<PythonWorker> {
+    const sandboxDir = await createSandboxDir();
+    const limits = { ...sandboxLimits, cpuHardSeconds: sandboxLimits.cpuSeconds * (maxJobs + 1) };
+    const child = spawn(PYTHON_COMMAND, [...PYTHON_ARGS, '-c', WORKER_SCRIPT, JSON.stringify(limits)], {
+      cwd: sandboxDir,
+      env: SANDBOX_ENV
+    });
+    return new PythonWorker(child, sandboxDir);
+  }
+
+  get alive(): boolean {
+    return !this.exited && !this.killed;
+  }
+
+  run(job: WorkerJob, options: WorkerRunOptions): Promise<WorkerOutput> {
+    return new Promise((resolve) => {
+      if (options.signal?.aborted) {
+        resolve({ success: false, data: EMPTY, error: 'Execution cancelled' });
+        return;
+      }
+
+      if (!this.alive) {
+        resolve({ success: false, data: EMPTY, error: this.exitError(null) });
+        return;
+      }
+
+      this.jobsRun++;
+      // Like the CPU allowance, the default timeout applies per step
+      const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS * Math.max(1, job.steps.length);
+      const timer = setTimeout(() => this.abort('Execution timed out'), timeoutMs);
+      const onAbort = () => this.abort('Execution cancelled');
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.settle = (output) => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        this.settle = undefined;
+        resolve(output);
+      };
+
+      const { data, inputs, ...header } = job;
+      const inputNames = inputs.map(input => input.name);
+      const inputDtypes = inputs.map(input => input.dtypes);
+      this.process.stdin.write(frame(Buffer.from(JSON.stringify({ ...header, inputNames, inputDtypes }), 'utf-8')));
+      this.process.stdin.write(frame(data));
+      inputs.forEach(input => this.process.stdin.write(frame(input.data)));
+    });
+  }
+
+  stop(): void {
+    if (!this.exited && !this.killed) {
+      this.killed = true;
+      this.process.kill('SIGKILL');
+    }
+  }
+
+  // The interpreter is in an unknown state after an interrupted job, so it is killed
+  private abort(error: string): void {
+    this.settle?.({ success: false, data: EMPTY, error });
+    this.stop();
+  }
+
+  private onStdout(chunk: Buffer): void {
+    this.stdoutBuffer = Buffer.concat([this.stdoutBuffer, chunk]);
+
+    while (this.stdoutBuffer.length >= 4) {
+      const length = this.stdoutBuffer.readUInt32BE(0);
+      if (this.stdoutBuffer.length < 4 + length) break;
+
+      this.frames.push(this.stdoutBuffer.subarray(4, 4 + length));
+      this.stdoutBuffer = this.stdoutBuffer.subarray(4 + length);
+
+      if (this.frames.length === 2) {
+        const [header, data] = this.frames;
+        this.frames = [];
+        try {
+          this.settle?.({ ...JSON.parse(header.toString('utf-8')), data });
+        } catch (error) {
+          this.abort(`Failed to process execution result: ${(error as Error).message}`);
+        }
+      }
+    }
+  }
+
+  private onExit(signal: NodeJS.Signals | null): void {
+    if (this.exited) return;
+    this.exited = true;
+    this.settle?.({ success: false, data: EMPTY, error: this.exitError(signal) });
+    removeSandboxDir(this.sandboxDir).catch(error => console.error('Cleanup error:', error));
+  }
+
+  private exitError(signal: NodeJS.Signals | null): string {
+    return describeSandboxExit(signal) || this.stderrTail.trim() || 'Python worker exited unexpectedly';
+  }
+}
+
+// Pre-warmed Python workers. A worker is replaced after maxJobsPerWorker jobs,
+// and whenever it crashes, times out or has a job cancelled.
+export class PythonWorkerPool {
+  private idle: PythonWorker[] = [];
+  private waiting: Array<{ resolve: (worker: PythonWorker) => void; reject: (error: Error) => void }> = [];
+  // Workers that are running or still starting, idle or not
+  private workers = 0;
+
+  constructor(private size: number, private maxJobsPerWorker: number) {}
+
+  warmUp(): void {
+    while (this.workers < this.size) {
+      this.spawnWorker();
+    }
+  }
+
+  async execute(job: WorkerJob, options: WorkerRunOptions = {}): Promise<WorkerOutput> {
+    const worker = await this.acquire();
+    try {
+      return await worker.run(job, options);
+    } finally {
+      this.release(worker);
+    }
+  }
+
+  shutdown(): void {
+    this.size = 0;
+    this.idle.forEach(worker => worker.stop());
+    this.idle = [];
+  }
+
+  private acquire(): Promise<PythonWorker> {
+    let worker: PythonWorker | undefined;
+    while ((worker = this.idle.pop())) {
+      if (worker.alive) {
+        return Promise.resolve(worker);
+      }
+      // Died while idle
+      this.workers--;
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ resolve, reject });
+      this.warmUp();
+    });
+  }
+
+  private release(worker: PythonWorker): void {
+    if (!worker.alive || worker.jobsRun >= this.maxJobsPerWorker) {
+      worker.stop();
+      this.workers--;
+      this.warmUp();
+      return;
+    }
+
+    this.handOut(worker);
+  }
+
+  private handOut(worker: PythonWorker): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next.resolve(worker);
+    } else {
+      this.idle.push(worker);
+    }
+  }
+
+  private spawnWorker(): void {
+    this.workers++;
+    PythonWorker.start(this.maxJobsPerWorker)
+      .then(worker => this.handOut(worker))
+      .catch(error => {
+        this.workers--;
+        console.error('Failed to start Python worker:', error);
+        this.waiting.shift()?.reject(error);
+      });
+  }
+}
+
+export const pythonWorkerPool = new PythonWorkerPool(
+  parseInt(process.env.PYTHON_WORKERS || '2', 10),
+  parseInt(process.env.PYTHON_WORKER_MAX_JOBS || '50', 10)
+);
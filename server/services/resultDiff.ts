@@ -0,0 +1,171 @@
+// Python source for result_diff(before, after), included in the worker script.
+// It compares the DataFrame transform_data received with the one it returned:
+// rows removed, added and changed, changed cells per column, and columns added,
+// dropped and renamed, plus a sample of the differing rows for review.
+//
+// Rows are matched by index label when both indexes are unique, as they are when
+// the code filters, sorts or edits in place. Code that rebuilds the index (groupby,
+// reset_index, concat, ...) is matched by row content instead, whichever of the
+// two explains the output with fewer differences.
+export const DIFF_SAMPLE_ROWS = 50;
+
+export const RESULT_DIFF_SCRIPT = `
+from collections import Counter
+
+DIFF_SAMPLE_ROWS = ${DIFF_SAMPLE_ROWS}
+
+
+# Element-wise equality of two equally long columns; two missing values are equal
+def values_equal(before, after):
+    before = pd.Series(before.to_numpy(dtype=object))
+    after = pd.Series(after.to_numpy(dtype=object))
+    try:
+        equal = (before == after).astype(bool)
+    except (TypeError, ValueError):
+        equal = before.astype(str) == after.astype(str)
+    return (equal | (before.isna() & after.isna())).to_numpy()
+
+
+def row_keys(df, columns):
+    if not columns:
+        return [()] * len(df)
+    return list(zip(*(df[column].astype(str) for column in columns)))
+
+
+# Positions of before rows with no equal after row, and the other way round
+def match_by_content(before_keys, after_keys):
+    available = Counter(after_keys)
+    removed = []
+    for position, key in enumerate(before_keys):
+        if available[key] > 0:
+            available[key] -= 1
+        else:
+            removed.append(position)
+
+    remaining = Counter(before_keys)
+    added = []
+    for position, key in enumerate(after_keys):
+        if remaining[key] > 0:
+            remaining[key] -= 1
+        else:
+            added.append(position)
+    return removed, added
+
+
+def diff_records(df):
+    return json.loads(df.to_json(orient='records', date_format='iso', default_handler=str))
+
+
+def find_renames(before, after, dropped, added, common):
+    renames = []
+    for old in dropped:
+        for new in added:
+            if any(new == target for _, target in renames):
+                continue
+            if common is not None and len(common) > 0:
+                same = values_equal(before.loc[common, old], after.loc[common, new]).all()
+            else:
+                same = len(before) == len(after) > 0 and values_equal(before[old], after[new]).all()
+            if same:
+                renames.append((old, new))
+                break
+    return renames
+
+
+def result_diff(before, after):
+    before = before.set_axis([str(column) for column in before.columns], axis=1)
+    after = after.set_axis([str(column) for column in after.columns], axis=1)
+    if before.columns.has_duplicates or after.columns.has_duplicates:
+        return None
+
+    before_columns = list(before.columns)
+    after_columns = list(after.columns)
+    dropped = [column for column in before_columns if column not in after_columns]
+    added = [column for column in after_columns if column not in before_columns]
+
+    by_index = before.index.is_unique and after.index.is_unique
+    common = after.index.intersection(before.index) if by_index else None
+
+    renames = find_renames(before, after, dropped, added, common)
+    dropped = [column for column in dropped if all(column != old for old, _ in renames)]
+    added = [column for column in added if all(column != new for _, new in renames)]
+    compared = [(column, column) for column in after_columns if column in before_columns] + renames
+
+    index_diff = None
+    if by_index and (len(common) > 0 or len(after) == 0):
+        removed_labels = before.index.difference(after.index, sort=False)
+        added_labels = after.index.difference(before.index, sort=False)
+        if compared and len(common) > 0:
+            changed = np.column_stack([
+                ~values_equal(before.loc[common, old], after.loc[common, new]) for old, new in compared
+            ])
+        else:
+            changed = np.zeros((len(common), len(compared)), dtype=bool)
+        row_changed = changed.any(axis=1)
+        index_diff = {
+            'removed': removed_labels,
+            'added': added_labels,
+            'changed': changed,
+            'row_changed': row_changed,
+            'cost': len(removed_labels) + len(added_labels) + int(row_changed.sum()),
+        }
+
+    content_diff = None
+    if index_diff is None or index_diff['cost'] > 0:
+        removed, added_rows = match_by_content(
+            row_keys(before, [old for old, _ in compared]),
+            row_keys(after, [new for _, new in compared])
+        )
+        if index_diff is None or len(removed) + len(added_rows) < index_diff['cost']:
+            content_diff = {'removed': removed, 'added': added_rows}
+
+    sample = []
+    if content_diff is None:
+        changed_labels = common[index_diff['row_changed']]
+        changed_rows = index_diff['changed'][index_diff['row_changed']]
+        cells_by_column = {
+            new: int(index_diff['changed'][:, position].sum()) for position, (_, new) in enumerate(compared)
+        }
+        for label, row in zip(changed_labels[:DIFF_SAMPLE_ROWS], changed_rows[:DIFF_SAMPLE_ROWS]):
+            sample.append({
+                'kind': 'changed',
+                'label': str(label),
+                'changedColumns': [new for flag, (_, new) in zip(row, compared) if flag],
+            })
+        sample_before = diff_records(before.loc[changed_labels[:DIFF_SAMPLE_ROWS]])
+        sample_after = diff_records(after.loc[changed_labels[:DIFF_SAMPLE_ROWS]])
+        for entry, before_row, after_row in zip(sample, sample_before, sample_after):
+            entry['before'] = before_row
+            entry['after'] = after_row
+        removed_rows = before.loc[index_diff['removed']]
+        added_rows = after.loc[index_diff['added']]
+        rows_changed = len(changed_labels)
+        matched_by = 'index'
+    else:
+        cells_by_column = {}
+        removed_rows = before.iloc[content_diff['removed']]
+        added_rows = after.iloc[content_diff['added']]
+        rows_changed = 0
+        matched_by = 'content'
+
+    room = DIFF_SAMPLE_ROWS - len(sample)
+    sample += [{'kind': 'removed', 'before': row} for row in diff_records(removed_rows.head(max(room, 0)))]
+    room = DIFF_SAMPLE_ROWS - len(sample)
+    sample += [{'kind': 'added', 'after': row} for row in diff_records(added_rows.head(max(room, 0)))]
+
+    return {
+        'matchedBy': matched_by,
+        'rowsRemoved': len(removed_rows),
+        'rowsAdded': len(added_rows),
+        'rowsChanged': rows_changed,
+        'cellsChanged': sum(cells_by_column.values()),
+        'cellsChangedByColumn': {column: count for column, count in cells_by_column.items() if count > 0},
+        'columnsAdded': added,
+        'columnsDropped': dropped,
+        'columnsRenamed': [{'from': old, 'to': new} for old, new in renames],
+        'beforeColumns': before_columns,
+        'afterColumns': after_columns,
+        'sample': sample,
+        'sampleTruncated': len(removed_rows) + len(added_rows) + rows_changed > len(sample),
+    }
+`;
@@ -0,0 +1,38 @@
+import { Readable } from 'stream';
+import { blobStore } from './blobStore';
+import { createDownloadBuffer } from './fileProcessor';
+
+export type ResultFormat = 'xlsx' | 'csv';
+
+export const RESULT_CONTENT_TYPES: Record<ResultFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+};
+
+function artifactKey(resultKey: string, format: ResultFormat): string {
+  return `${resultKey}.${format}`;
+}
+
+export function isResultFormat(value: unknown): value is ResultFormat {
+  return value === 'xlsx' || value === 'csv';
+}
+
+// Write the complete result in every download format and return the key
+// that is stored on the run as resultS3Key
+export async function saveRunResult(runId: string, data: any[]): Promise<string> {
+  const resultKey = `results/${runId}`;
+
+  for (const format of Object.keys(RESULT_CONTENT_TYPES) as ResultFormat[]) {
+    await blobStore.put(
+      artifactKey(resultKey, format),
+      createDownloadBuffer(data, format),
+      RESULT_CONTENT_TYPES[format]
+    );
+  }
+
+  return resultKey;
+}
+
+export async function openRunResult(resultKey: string, format: ResultFormat): Promise<Readable> {
+  return await blobStore.createReadStream(artifactKey(resultKey, format));
+}
@@ -0,0 +1,254 @@
+import { storage } from '../storage';
+import { blobStore } from './blobStore';
+import { loadSheetRows, sheetDtypes } from './fileProcessor';
+import { executePandasCode, executeSteps, type ExecutionResult } from './pythonExecutor';
+import { saveRunResult } from './resultStore';
+import { improveCode } from './codeGeneration';
+import { analyzeCode } from './codeAnalysis';
+import { summarizePipelineRun, type ResolvedPipelineStep } from './pipelines';
+import { loadInputSheets, resolveInputSheets } from './inputSheets';
+import type { InputSheet, PipelineStepResult } from '@shared/schema';
+
+export type RunStage = 'queued' | 'loading' | 'executing' | 'fixing' | 'saving';
+
+// Upper bound on repaired attempts queued after a failed run
+export const autoFixMaxAttempts = parseInt(process.env.AUTO_FIX_MAX_ATTEMPTS || '3', 10);
+
+export interface RunJob {
+  runId: string;
+  userId: string;
+  uploadId: string;
+  sheetName: string;
+  code: string;
+  parameters: Record<string, any>;
+  columnRenames?: Record<string, string>;
+  // Extra sheets handed to transform_data(df, inputs)
+  inputSheets?: InputSheet[];
+  // Repaired attempts still allowed if this run fails
+  autoFixAttempts?: number;
+  // Set for pipeline runs, which execute these steps instead of code
+  pipelineSteps?: ResolvedPipelineStep[];
+}
+
+export interface RunProgress {
+  stage: RunStage;
+  queuePosition?: number;
+  startedAt?: number;
+}
+
+interface ActiveRun {
+  controller: AbortController;
+  stage: RunStage;
+  startedAt: number;
+}
+
+export class RunQueue {
+  private pending: RunJob[] = [];
+  private active = new Map<string, ActiveRun>();
+
+  constructor(private concurrency: number) {}
+
+  enqueue(job: RunJob): void {
+    this.pending.push(job);
+    this.drain();
+  }
+
+  getProgress(runId: string): RunProgress | undefined {
+    const active = this.active.get(runId);
+    if (active) {
+      return { stage: active.stage, startedAt: active.startedAt };
+    }
+
+    const position = this.pending.findIndex(job => job.runId === runId);
+    if (position !== -1) {
+      return { stage: 'queued', queuePosition: position + 1 };
+    }
+
+    return undefined;
+  }
+
+  // Returns false when the run is not queued or running in this process
+  async cancel(runId: string): Promise<boolean> {
+    const position = this.pending.findIndex(job => job.runId === runId);
+    if (position !== -1) {
+      this.pending.splice(position, 1);
+      await storage.updateRunStatus(runId, 'cancelled', { error: 'Run was cancelled' });
+      return true;
+    }
+
+    const active = this.active.get(runId);
+    if (active) {
+      // process() records the cancelled status once the child process exits
+      active.controller.abort();
+      return true;
+    }
+
+    return false;
+  }
+
+  private drain(): void {
+    while (this.active.size < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      const active: ActiveRun = {
+        controller: new AbortController(),
+        stage: 'loading',
+        startedAt: Date.now(),
+      };
+      this.active.set(job.runId, active);
+
+      this.process(job, active)
+        .catch(error => console.error(`Run ${job.runId} failed unexpectedly:`, error))
+        .finally(() => {
+          this.active.delete(job.runId);
+          this.drain();
+        });
+    }
+  }
+
+  private async process(job: RunJob, active: ActiveRun): Promise<void> {
+    const { signal } = active.controller;
+
+    try {
+      await storage.updateRunStatus(job.runId, 'running');
+
+      const upload = await storage.getUpload(job.uploadId, job.userId);
+      if (!upload) {
+        throw new Error('Upload not found');
+      }
+
+      const sheet = upload.sheets.find(sheet => sheet.name === job.sheetName);
+      const columns = sheet?.columns || [];
+      const buffer = await blobStore.get(upload.s3Key);
+      const sheetRows = await loadSheetRows(buffer, upload.originalName, job.sheetName, sheet?.parseOptions);
+      const inputs = job.inputSheets?.length ? await loadInputSheets(job.inputSheets, job.userId) : undefined;
+      const dataOptions = {
+        inputs: inputs?.rows,
+        dtypes: sheetDtypes(sheet?.parseOptions),
+        inputDtypes: inputs?.dtypes
+      };
+
+      if (signal.aborted) {
+        await storage.updateRunStatus(job.runId, 'cancelled', { error: 'Run was cancelled' });
+        return;
+      }
+
+      active.stage = 'executing';
+      const executionResult = job.pipelineSteps
+        ? await executeSteps(
+          job.pipelineSteps.filter(step => step.enabled).map(({ code, parameters }) => ({ code, parameters })),
+          sheetRows,
+          { signal, columnRenames: job.columnRenames, ...dataOptions }
+        )
+        : await executePandasCode(job.code, sheetRows, job.parameters, {
+          signal,
+          columnRenames: job.columnRenames,
+          ...dataOptions
+        });
+
+      let stepResults: PipelineStepResult[] | undefined;
+      if (job.pipelineSteps) {
+        const pipelineRun = summarizePipelineRun(job.pipelineSteps, executionResult, sheetRows.length);
+        stepResults = pipelineRun.stepResults;
+        executionResult.error = pipelineRun.error || executionResult.error;
+      }
+
+      if (signal.aborted) {
+        await storage.updateRunStatus(job.runId, 'cancelled', {
+          error: 'Run was cancelled',
+          executionTime: executionResult.executionTime,
+          stepResults
+        });
+        return;
+      }
+
+      if (!executionResult.success) {
+        active.stage = 'fixing';
+        const nextRunId = await this.queueAutoFix(job, columns, executionResult, signal);
+        if (signal.aborted) {
+          await storage.updateRunStatus(job.runId, 'cancelled', {
+            error: 'Run was cancelled',
+            executionTime: executionResult.executionTime
+          });
+          return;
+        }
+        await storage.updateRunStatus(job.runId, 'failed', {
+          error: executionResult.error,
+          executionTime: executionResult.executionTime,
+          nextRunId,
+          stepResults
+        });
+        return;
+      }
+
+      active.stage = 'saving';
+      await storage.updateRunStatus(job.runId, 'completed', {
+        summary: executionResult.summary,
+        s3Key: await saveRunResult(job.runId, executionResult.data || []),
+        executionTime: executionResult.executionTime,
+        stepResults
+      });
+    } catch (error) {
+      await storage.updateRunStatus(job.runId, 'failed', {
+        error: (error as Error).message,
+        executionTime: Date.now() - active.startedAt
+      });
+    }
+  }
+
+  // Asks the model to repair the failed code and queues the repaired version as
+  // a new run linked to this one. Returns the new run's id, or undefined when
+  // auto-fix is off, used up, or produced nothing safe to run.
+  private async queueAutoFix(
+    job: RunJob,
+    columns: Array<{ name: string; type: string; index: number }>,
+    result: ExecutionResult,
+    signal: AbortSignal
+  ): Promise<string | undefined> {
+    if (!job.autoFixAttempts || job.autoFixAttempts <= 0) {
+      return undefined;
+    }
+
+    try {
+      const failedRun = await storage.getRun(job.runId, job.userId);
+      if (!failedRun) return undefined;
+
+      // The repair sees the same input sheet schemas the original code was generated with
+      const resolved = job.inputSheets?.length ? await resolveInputSheets(job.inputSheets, job.userId) : undefined;
+      const inputs = resolved?.success
+        ? resolved.sheets.map(({ input, sheet }) => ({ name: input.name, columns: sheet.columns, preview: sheet.preview }))
+        : [];
+
+      const fix = await improveCode(job.code, result.traceback || result.error || 'Unknown error', columns, inputs);
+      if (signal.aborted || fix.code.trim() === job.code.trim()) return undefined;
+
+      // The repaired code goes through the same checks as code submitted to /api/run
+      const analysis = await analyzeCode(fix.code, [
+        ...columns.map(column => column.name),
+        ...inputs.flatMap(input => input.columns.map(column => column.name))
+      ]);
+      if (!analysis.safe || signal.aborted) return undefined;
+
+      const run = await storage.createRun({
+        uploadId: failedRun.uploadId,
+        sheetName: failedRun.sheetName,
+        nlInstruction: failedRun.nlInstruction,
+        generatedCode: fix.code,
+        parameters: failedRun.parameters,
+        conversationId: failedRun.conversationId,
+        inputSheets: failedRun.inputSheets,
+        status: 'pending',
+        userId: job.userId,
+        previousRunId: failedRun.id,
+        attempt: failedRun.attempt + 1
+      });
+
+      this.enqueue({ ...job, runId: run.id, code: fix.code, autoFixAttempts: job.autoFixAttempts - 1 });
+      return run.id;
+    } catch (error) {
+      console.error(`Auto-fix for run ${job.runId} failed:`, error);
+      return undefined;
+    }
+  }
+}
+
+export const runQueue = new RunQueue(parseInt(process.env.RUN_CONCURRENCY || '2', 10));
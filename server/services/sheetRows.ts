@@ -0,0 +1,217 @@
+import { blobStore } from './blobStore';
+import { loadSheetRows } from './fileProcessor';
+import { parseDateText } from './typeInference';
+import type { Upload } from '@shared/schema';
+
+type Row = Record<string, any>;
+type UploadSheet = Upload['sheets'][number];
+type SheetColumn = UploadSheet['columns'][number];
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface SheetRowQuery {
+  offset: number;
+  limit: number;
+  sort?: string;
+  order: SortOrder;
+  // Column -> filter expression, see columnFilter()
+  filters: Record<string, string>;
+}
+
+export interface SheetRowPage {
+  rows: Row[];
+  offset: number;
+  // Rows matching the filters
+  totalRows: number;
+  // Rows in the sheet
+  rowCount: number;
+}
+
+export const MAX_PAGE_ROWS = 1000;
+
+const CACHE_SIZE = parseInt(process.env.SHEET_CACHE_SIZE || '4', 10);
+const VIEWS_PER_SHEET = 4;
+
+interface CachedSheet {
+  rows: Promise<Row[]>;
+  // Filtered and sorted row lists by query, most recently used last
+  views: Map<string, Row[]>;
+}
+
+// Parsed sheets, most recently used last. Scrolling through a sheet would
+// otherwise re-read the workbook for every page.
+const cache = new Map<string, CachedSheet>();
+
+function cachedSheet(upload: Upload, sheetName: string): CachedSheet {
+  const key = `${upload.id}/${sheetName}`;
+  let entry = cache.get(key);
+
+  if (entry) {
+    cache.delete(key);
+  } else {
+    const parseOptions = upload.sheets.find(sheet => sheet.name === sheetName)?.parseOptions;
+    const rows = blobStore.get(upload.s3Key).then(buffer => loadSheetRows(buffer, upload.originalName, sheetName, parseOptions));
+    entry = { rows, views: new Map() };
+    // A failed read must not be served from the cache
+    rows.catch(() => cache.delete(key));
+  }
+
+  cache.set(key, entry);
+  while (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+  return entry;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' ? value : Number(String(value).replace(/[$,\s%]/g, ''));
+}
+
+function isDayFirst(column?: SheetColumn): boolean {
+  return column?.format?.dateFormat?.startsWith('DD') ?? false;
+}
+
+// Dates arrive as Date objects, as serial day numbers where Excel did not
+// format a date cell as a date, or as text in the column's date order
+function toTimestamp(value: unknown, dayFirst: boolean): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return Math.round((value - 25569) * 86400000);
+  return parseDateText(String(value), dayFirst)?.getTime() ?? NaN;
+}
+
+function cellText(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+const NUMERIC_TYPES = new Set(['number', 'currency', 'percentage']);
+const COMPARISON = /^(>=|<=|!=|>|<|=)\s*(-?\d+(?:\.\d+)?)$/;
+const DATE_COMPARISON = /^(>=|<=|!=|>|<|=)\s*(.+)$/;
+
+function compareWith(operator: string, value: number, target: number): boolean {
+  switch (operator) {
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+    case '!=': return value !== target;
+    default: return value === target;
+  }
+}
+
+// Numeric columns accept comparisons such as ">100" or "<= 5", and date columns
+// such as ">=2024-01-31", read in the column's date order; everything else
+// matches cells containing the text, ignoring case
+function columnFilter(column: SheetColumn | undefined, expression: string): (value: unknown) => boolean {
+  const type = column?.type || 'text';
+  const comparison = NUMERIC_TYPES.has(type) ? expression.match(COMPARISON) : null;
+
+  if (comparison) {
+    const [, operator, operand] = comparison;
+    const target = Number(operand);
+    return (value) => !isBlank(value) && compareWith(operator, toNumber(value), target);
+  }
+
+  const dateComparison = type === 'date' ? expression.match(DATE_COMPARISON) : null;
+  const dayFirst = isDayFirst(column);
+  const targetDate = dateComparison && parseDateText(dateComparison[2], dayFirst);
+
+  if (dateComparison && targetDate) {
+    const operator = dateComparison[1];
+    return (value) => {
+      if (isBlank(value)) return false;
+      const timestamp = toTimestamp(value, dayFirst);
+      return !isNaN(timestamp) && compareWith(operator, timestamp, targetDate.getTime());
+    };
+  }
+
+  const needle = expression.toLowerCase();
+  return (value) => !isBlank(value) && cellText(value).toLowerCase().includes(needle);
+}
+
+function compareValues(column: SheetColumn | undefined): (a: unknown, b: unknown) => number {
+  const type = column?.type || 'text';
+  if (NUMERIC_TYPES.has(type)) {
+    return (a, b) => toNumber(a) - toNumber(b);
+  }
+  if (type === 'date') {
+    const dayFirst = isDayFirst(column);
+    // Cells that do not read as dates sort by their text, after the dates when ascending
+    return (a, b) => {
+      const aTime = toTimestamp(a, dayFirst);
+      const bTime = toTimestamp(b, dayFirst);
+      if (isNaN(aTime) || isNaN(bTime)) {
+        return isNaN(aTime) === isNaN(bTime) ? cellText(a).localeCompare(cellText(b)) : isNaN(aTime) ? 1 : -1;
+      }
+      return aTime - bTime;
+    };
+  }
+  return (a, b) => String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function applyQuery(rows: Row[], sheet: UploadSheet, query: SheetRowQuery): Row[] {
+  const columns = new Map(sheet.columns.map(column => [column.name, column]));
+  const filters = Object.entries(query.filters)
+    .filter(([, expression]) => expression.trim() !== '')
+    .map(([column, expression]) => ({ column, matches: columnFilter(columns.get(column), expression.trim()) }));
+
+  const matching = filters.length > 0
+    ? rows.filter(row => filters.every(({ column, matches }) => matches(row[column])))
+    : rows;
+
+  if (!query.sort) {
+    return matching;
+  }
+
+  const column = query.sort;
+  const compare = compareValues(columns.get(column));
+  const direction = query.order === 'desc' ? -1 : 1;
+
+  // Blank cells sort last in both directions
+  return [...matching].sort((a, b) => {
+    const aBlank = isBlank(a[column]);
+    const bBlank = isBlank(b[column]);
+    if (aBlank || bBlank) return aBlank === bBlank ? 0 : aBlank ? 1 : -1;
+    return compare(a[column], b[column]) * direction;
+  });
+}
+
+// One page of a sheet's rows after filtering and sorting. The filtered, sorted
+// row list is kept for later pages of the same query.
+export async function querySheetRows(upload: Upload, sheet: UploadSheet, query: SheetRowQuery): Promise<SheetRowPage> {
+  const entry = cachedSheet(upload, sheet.name);
+  const rows = await entry.rows;
+
+  const viewKey = JSON.stringify([query.sort, query.order, query.filters]);
+  let view = entry.views.get(viewKey);
+
+  if (view) {
+    entry.views.delete(viewKey);
+  } else {
+    view = applyQuery(rows, sheet, query);
+  }
+
+  entry.views.set(viewKey, view);
+  while (entry.views.size > VIEWS_PER_SHEET) {
+    entry.views.delete(entry.views.keys().next().value!);
+  }
+
+  return {
+    rows: view.slice(query.offset, query.offset + query.limit),
+    offset: query.offset,
+    totalRows: view.length,
+    rowCount: rows.length
+  };
+}
+
+// Drops a deleted or re-parsed upload's sheets
+export function forgetUploadRows(uploadId: string): void {
+  for (const key of Array.from(cache.keys())) {
+    if (key.startsWith(`${uploadId}/`)) {
+      cache.delete(key);
+    }
+  }
+}
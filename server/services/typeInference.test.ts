@@ -0,0 +1,148 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertColumn, inferColumnType, type CellSample } from './typeInference';
+
+// Cells as SheetJS reads them from a CSV or from typed Excel cells
+function cells(...values: unknown[]): CellSample[] {
+  return values.map(value => ({ value }));
+}
+
+function formatted(format: string, ...values: number[]): CellSample[] {
+  return values.map(value => ({ value, format }));
+}
+
+function dates(values: unknown[]): string[] {
+  return values.map(value => (value as Date).toISOString().slice(0, 10));
+}
+
+test('integers read as numbers', () => {
+  assert.deepEqual(inferColumnType(cells('1', '2', '30', '400')), {
+    type: 'number',
+    confidence: 1,
+    format: { numberKind: 'integer', decimalSeparator: '.' },
+  });
+  assert.deepEqual(inferColumnType(cells(1, 2, 30, 400)), {
+    type: 'number',
+    confidence: 1,
+    format: { numberKind: 'integer' },
+  });
+});
+
+test('amounts with a currency symbol read as currency', () => {
+  assert.deepEqual(inferColumnType(cells('$1,200.00', '$35.50', '$7.25', '$100.00')), {
+    type: 'currency',
+    confidence: 1,
+    format: { numberKind: 'decimal', decimalSeparator: '.', currency: '$' },
+  });
+  assert.deepEqual(inferColumnType(formatted('"$"#,##0.00', 1200, 35.5)), {
+    type: 'currency',
+    confidence: 1,
+    format: { numberKind: 'decimal', currency: '$' },
+  });
+});
+
+test('a single currency symbol does not make a number column currency', () => {
+  const inferred = inferColumnType(cells('$5', '10', '12', '14', '16', '18', '20', '22', '24', '26', '28'));
+  assert.equal(inferred.type, 'number');
+  assert.equal(inferred.confidence, 0.91);
+});
+
+test('codes with leading zeros read as IDs and keep their zeros', () => {
+  const zips = cells('02134', '10001', '90210', '07030');
+  assert.deepEqual(inferColumnType(zips), { type: 'id', confidence: 1, format: {} });
+  assert.deepEqual(convertColumn(zips, 'id'), ['02134', '10001', '90210', '07030']);
+});
+
+test('a day above 12 marks dates as day first', () => {
+  const column = cells('31/01/2024', '15/02/2024', '01/03/2024');
+  assert.deepEqual(inferColumnType(column), {
+    type: 'date',
+    confidence: 1,
+    format: { dateFormat: 'DD/MM/YYYY' },
+  });
+  assert.deepEqual(dates(convertColumn(column, 'date')), ['2024-01-31', '2024-02-15', '2024-03-01']);
+});
+
+test('a day above 12 in second place marks dates as month first', () => {
+  const column = cells('01/31/2024', '02/15/2024', '03/01/2024');
+  assert.deepEqual(inferColumnType(column), {
+    type: 'date',
+    confidence: 1,
+    format: { dateFormat: 'MM/DD/YYYY' },
+  });
+  assert.deepEqual(dates(convertColumn(column, 'date')), ['2024-01-31', '2024-02-15', '2024-03-01']);
+});
+
+test('dates that could be either order are guessed with lower confidence', () => {
+  assert.deepEqual(inferColumnType(cells('01/02/2024', '03/04/2024', '05/06/2024')), {
+    type: 'date',
+    confidence: 0.9,
+    format: { dateFormat: 'MM/DD/YYYY' },
+  });
+  assert.deepEqual(inferColumnType(cells('01.02.2024', '03.04.2024')), {
+    type: 'date',
+    confidence: 0.9,
+    format: { dateFormat: 'DD.MM.YYYY' },
+  });
+});
+
+test('decimal commas are detected and converted', () => {
+  const column = cells('1.234,5', '2.000,25', '17,5', '3,75');
+  assert.deepEqual(inferColumnType(column), {
+    type: 'number',
+    confidence: 1,
+    format: { numberKind: 'decimal', decimalSeparator: ',' },
+  });
+  assert.deepEqual(convertColumn(column, 'number'), [1234.5, 2000.25, 17.5, 3.75]);
+  assert.deepEqual(inferColumnType(cells('1.234,50 €', '17,00 €', '3,75 €')), {
+    type: 'currency',
+    confidence: 1,
+    format: { numberKind: 'decimal', decimalSeparator: ',', currency: '€' },
+  });
+});
+
+test('Excel serial numbers with a date format read as dates', () => {
+  const column = formatted('yyyy-mm-dd', 45292, 45293, 45300);
+  assert.deepEqual(inferColumnType(column), {
+    type: 'date',
+    confidence: 1,
+    format: { dateFormat: 'excel' },
+  });
+  assert.deepEqual(dates(convertColumn(column, 'date')), ['2024-01-01', '2024-01-02', '2024-01-09']);
+  assert.equal(inferColumnType(formatted('[$-409]d-mmm-yy;@', 45292, 45293)).type, 'date');
+});
+
+test('Excel serial numbers without a date format stay numbers', () => {
+  const expected = { type: 'number', confidence: 1, format: { numberKind: 'integer' } };
+  assert.deepEqual(inferColumnType(formatted('General', 45292, 45293, 45300)), expected);
+  assert.deepEqual(inferColumnType(cells(45292, 45293, 45300)), expected);
+});
+
+test('a column of only 0 and 1 reads as boolean with lower confidence', () => {
+  const expected = { type: 'boolean', confidence: 0.7, format: {} };
+  assert.deepEqual(inferColumnType(cells(0, 1, 1, 0, 1)), expected);
+  assert.deepEqual(inferColumnType(cells('0', '1', '1', '0')), expected);
+  assert.deepEqual(convertColumn(cells(0, 1, '1', '0', ''), 'boolean'), [false, true, true, false, null]);
+});
+
+test('0 and 1 alongside other counts stay numbers', () => {
+  assert.equal(inferColumnType(cells(0, 1, 2, 1, 0)).type, 'number');
+  assert.equal(inferColumnType(cells(0, 0, 0)).type, 'number');
+});
+
+test('0 and 1 next to yes and no read as boolean with full confidence', () => {
+  assert.deepEqual(inferColumnType(cells('yes', 'no', '1', '0')), { type: 'boolean', confidence: 1, format: {} });
+});
+
+test('confidence is the share of non-empty cells that fit the type', () => {
+  assert.equal(inferColumnType(cells('1', '2', '3', '4', 'x')).confidence, 0.8);
+  assert.equal(inferColumnType(cells('1', '2', '3', 'x', 'z')).confidence, 0.6);
+  assert.equal(inferColumnType(cells('a@b.com', 'c@d.org', 'nope')).confidence, 0.67);
+  assert.equal(inferColumnType(cells('1', '2', '3', '', null, '4', 'x')).confidence, 0.8);
+});
+
+test('columns below the type share fall back to category or text', () => {
+  assert.deepEqual(inferColumnType(cells('1', '2', 'p', 'q', 'r')), { type: 'text', confidence: 0.6, format: {} });
+  assert.deepEqual(inferColumnType(cells('a', 'b', 'a', 'b', 'a')), { type: 'category', confidence: 0.6, format: {} });
+  assert.deepEqual(inferColumnType(cells('', null, '  ')), { type: 'text', confidence: 0, format: {} });
+});
@@ -0,0 +1,398 @@
+import type { ColumnFormat, ColumnType } from '@shared/schema';
+
+// One sampled cell: the value SheetJS read, the text it was written as and,
+// for Excel files, its number format
+export interface CellSample {
+  value: unknown;
+  text?: string;
+  format?: string;
+}
+
+export interface InferredColumnType {
+  type: ColumnType;
+  // Share of non-empty sampled cells that fit the type, lowered when the
+  // layout is ambiguous (e.g. 01/02/2024 could be either day first or month first)
+  confidence: number;
+  format: ColumnFormat;
+}
+
+type CellKind = 'number' | 'currency' | 'percentage' | 'id' | 'date' | 'boolean' | 'email' | 'url' | 'text';
+
+interface ClassifiedCell {
+  kind: CellKind;
+  // Numeric value of number, currency and percentage cells
+  number?: number;
+  currency?: string;
+  dateFormat?: string;
+}
+
+type DateOrder = 'DMY' | 'MDY';
+
+interface Conventions {
+  decimalSeparator: '.' | ',';
+  dateOrder: DateOrder;
+  // No value told day-first and month-first dates apart
+  dateOrderGuessed: boolean;
+}
+
+// Below this share of fitting cells a column is text or category
+const MIN_TYPE_SHARE = 0.6;
+
+// Share of a numeric column's fitting cells that must carry the specific
+// marker; a single "$" or leading zero does not make a column currency or IDs
+const MARKER_SHARE: Partial<Record<ColumnType, number>> = {
+  currency: 0.5,
+  percentage: 0.5,
+  id: 0.1,
+};
+
+// Most specific first, for ties
+const TYPE_PRIORITY: ColumnType[] = ['email', 'url', 'date', 'boolean', 'id', 'currency', 'percentage', 'number'];
+
+const BOOLEAN_WORDS = new Set(['true', 'false', 'yes', 'no', 'y', 'n']);
+const EMAIL = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+const URL_PATTERN = /^(https?:\/\/|www\.)[^\s]+$/i;
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'CHF', 'CAD', 'AUD', 'NZD', 'SEK', 'NOK', 'DKK', 'PLN', 'BRL', 'MXN', 'ZAR'];
+const CURRENCY = `(?:R\\$|[$€£¥₹₩₽₺₪]|${CURRENCY_CODES.join('|')})`;
+const LEADING_CURRENCY = new RegExp(`^([-+]?)\\s*(${CURRENCY})\\s*`);
+const TRAILING_CURRENCY = new RegExp(`\\s*(${CURRENCY})$`);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const TIME = '(?:[T ]\\d{1,2}:\\d{2}(?::\\d{2}(?:\\.\\d+)?)?(?:\\s?[AaPp][Mm])?(?:Z|[+-]\\d{2}:?\\d{2})?)?';
+const ISO_DATE = new RegExp(`^(\\d{4})([-/])(\\d{1,2})\\2(\\d{1,2})${TIME}$`);
+const NUMERIC_DATE = new RegExp(`^(\\d{1,2})([-/.])(\\d{1,2})\\2(\\d{4}|\\d{2})${TIME}$`);
+const DAY_MONTH_NAME = /^(\d{1,2})[\s-]([A-Za-z]{3,9})\.?[\s-](\d{4}|\d{2})$/;
+const MONTH_NAME_DAY = /^([A-Za-z]{3,9})\.?\s(\d{1,2}),?\s(\d{4})$/;
+
+// Number layouts by decimal separator; thousands may be grouped with
+// commas, dots, spaces or apostrophes depending on the locale
+const NUMBER_LAYOUTS: Record<'.' | ',', RegExp> = {
+  '.': /^[-+]?(?:\d{1,3}(?:[,\s ']\d{3})+|\d+)(?:\.\d+)?(?:[eE][-+]?\d+)?$|^[-+]?\.\d+$/,
+  ',': /^[-+]?(?:\d{1,3}(?:[.\s ]\d{3})+|\d+)(?:,\d+)?$/,
+};
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function fullYear(year: string): number {
+  const value = Number(year);
+  return year.length === 2 ? (value < 50 ? 2000 + value : 1900 + value) : value;
+}
+
+function validDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+// Day and month of a numeric date such as 31/12/2024, in the column's order
+function dayAndMonth(first: number, second: number, order: DateOrder): [number, number] {
+  return order === 'DMY' ? [first, second] : [second, first];
+}
+
+function parseDate(text: string, order: DateOrder): { date: Date; format: string } | null {
+  let match = text.match(ISO_DATE);
+  if (match) {
+    const date = validDate(Number(match[1]), Number(match[3]), Number(match[4]));
+    return date && { date, format: `YYYY${match[2]}MM${match[2]}DD` };
+  }
+
+  match = text.match(NUMERIC_DATE);
+  if (match) {
+    const [day, month] = dayAndMonth(Number(match[1]), Number(match[3]), order);
+    const date = validDate(fullYear(match[4]), month, day);
+    const separator = match[2];
+    const year = match[4].length === 2 ? 'YY' : 'YYYY';
+    const layout = order === 'DMY' ? `DD${separator}MM` : `MM${separator}DD`;
+    return date && { date, format: `${layout}${separator}${year}` };
+  }
+
+  match = text.match(DAY_MONTH_NAME);
+  if (match && monthNumber(match[2]) > 0) {
+    const date = validDate(fullYear(match[3]), monthNumber(match[2]), Number(match[1]));
+    return date && { date, format: 'D MMM YYYY' };
+  }
+
+  match = text.match(MONTH_NAME_DAY);
+  if (match && monthNumber(match[1]) > 0) {
+    const date = validDate(Number(match[3]), monthNumber(match[1]), Number(match[2]));
+    return date && { date, format: 'MMM D, YYYY' };
+  }
+
+  return null;
+}
+
+// Parses a date written as text; dayFirst picks 31/12 over 12/31 for numeric layouts
+export function parseDateText(text: string, dayFirst = false): Date | null {
+  return parseDate(text.trim(), dayFirst ? 'DMY' : 'MDY')?.date ?? null;
+}
+
+// Excel number formats: quoted literals, [colour]/[$-locale] sections and
+// escaped characters carry no date or percent codes
+function formatCodes(format: string): string {
+  return format.replace(/"[^"]*"|\[[^\]]*\]|\\.|_.|\*./g, '');
+}
+
+export function isDateFormat(format: string): boolean {
+  return format !== 'General' && /[dmyhs]/i.test(formatCodes(format));
+}
+
+function formatCurrency(format: string): string | undefined {
+  const locale = format.match(/\[\$([^\]-]+)/);
+  if (locale) return locale[1];
+  return format.match(new RegExp(CURRENCY))?.[0];
+}
+
+// The numeric part of a cell's text, without sign, currency or percent markers
+function numberPart(text: string): string {
+  return text
+    .replace(/^\((.*)\)$/, '$1')
+    .replace(/%$/, '')
+    .replace(LEADING_CURRENCY, '$1')
+    .replace(TRAILING_CURRENCY, '')
+    .trim();
+}
+
+function parseNumber(text: string, decimalSeparator: '.' | ','): number | null {
+  if (!NUMBER_LAYOUTS[decimalSeparator].test(text)) return null;
+  const thousands = decimalSeparator === '.' ? /[,\s ']/g : /[.\s ]/g;
+  const value = Number(text.replace(thousands, '').replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+}
+
+// Reads a number written as text: "(1.234,50 €)" is -1234.5 with ',' as the
+// decimal separator, and percentages are fractions, as SheetJS reads them
+export function parseNumericText(
+  text: string,
+  decimalSeparator: '.' | ',' = '.'
+): { value: number; currency?: string; percentage: boolean } | null {
+  const trimmed = text.trim();
+  const unwrapped = trimmed.replace(/^\((.*)\)$/, '$1').trim();
+  const percentage = unwrapped.endsWith('%');
+  const currency = unwrapped.match(LEADING_CURRENCY)?.[2] ?? unwrapped.match(TRAILING_CURRENCY)?.[1];
+
+  const parsed = parseNumber(numberPart(trimmed), decimalSeparator);
+  if (parsed === null || (percentage && currency)) return null;
+
+  const value = unwrapped !== trimmed ? -Math.abs(parsed) : parsed;
+  return { value: percentage ? value / 100 : value, currency, percentage };
+}
+
+// Which decimal separator and date order the column's text uses. "1,234" and
+// 01/02/2024 alone say nothing; "1.234,5" and 31/01/2024 do.
+function detectConventions(texts: string[]): Conventions {
+  let commaDecimal = 0;
+  let dotDecimal = 0;
+  let dayFirst = 0;
+  let monthFirst = 0;
+
+  for (const text of texts) {
+    const number = numberPart(text);
+    if (/^[-+]?\d{1,3}(\.\d{3})+(,\d+)?$|^[-+]?\d+,(\d{1,2}|\d{4,})$/.test(number) && !/^\d{1,3}\.\d{3}$/.test(number)) {
+      commaDecimal++;
+    } else if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$|^[-+]?\d+\.(\d{1,2}|\d{4,})$/.test(number) && !/^\d{1,3},\d{3}$/.test(number)) {
+      dotDecimal++;
+    }
+
+    const date = text.match(NUMERIC_DATE);
+    if (date) {
+      if (Number(date[1]) > 12) dayFirst++;
+      if (Number(date[3]) > 12) monthFirst++;
+    }
+  }
+
+  const dottedDates = texts.some(text => text.match(NUMERIC_DATE)?.[2] === '.');
+  const dateOrderGuessed = dayFirst === monthFirst;
+  return {
+    decimalSeparator: commaDecimal > dotDecimal ? ',' : '.',
+    // Undecided dotted dates (31.12.2024) are day first, as in the locales that write them
+    dateOrder: dayFirst > monthFirst || (dateOrderGuessed && dottedDates) ? 'DMY' : 'MDY',
+    dateOrderGuessed,
+  };
+}
+
+function classifyNumberCell(value: number, format?: string): ClassifiedCell {
+  if (format && isDateFormat(format)) return { kind: 'date', dateFormat: 'excel' };
+  if (format && formatCodes(format).includes('%')) return { kind: 'percentage', number: value };
+
+  const currency = format ? formatCurrency(format) : undefined;
+  if (currency) return { kind: 'currency', number: value, currency };
+
+  return { kind: 'number', number: value };
+}
+
+function classifyText(text: string, conventions: Conventions): ClassifiedCell {
+  if (BOOLEAN_WORDS.has(text.toLowerCase())) return { kind: 'boolean' };
+  if (EMAIL.test(text)) return { kind: 'email' };
+  if (URL_PATTERN.test(text)) return { kind: 'url' };
+
+  // Leading zeros are kept only by codes: zip codes, account and item numbers
+  if (/^0\d+$/.test(text)) return { kind: 'id' };
+
+  const date = parseDate(text, conventions.dateOrder);
+  if (date) return { kind: 'date', dateFormat: date.format };
+
+  const parsed = parseNumericText(text, conventions.decimalSeparator);
+  if (!parsed) return { kind: 'text' };
+  if (parsed.percentage) return { kind: 'percentage', number: parsed.value };
+  if (parsed.currency) return { kind: 'currency', number: parsed.value, currency: parsed.currency };
+  return { kind: 'number', number: parsed.value };
+}
+
+function classifyCell(cell: CellSample, conventions: Conventions): ClassifiedCell {
+  if (typeof cell.value === 'boolean') return { kind: 'boolean' };
+  if (cell.value instanceof Date) return { kind: 'date', dateFormat: 'excel' };
+  if (typeof cell.value === 'number') return classifyNumberCell(cell.value, cell.format);
+  return classifyText(String(cell.text ?? cell.value).trim(), conventions);
+}
+
+function mostCommon(values: Array<string | undefined>): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value !== undefined) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  let best: string | undefined;
+  for (const [value, count] of Array.from(counts.entries())) {
+    if (best === undefined || count > counts.get(best)!) best = value;
+  }
+  return best;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Infers a column's type from a sample of its cells. Each cell is classified
+// on its own, in the column's number and date conventions, and the most
+// specific type that fits most cells wins.
+export function inferColumnType(cells: CellSample[]): InferredColumnType {
+  const present = cells.filter(cell => !isBlank(cell.value));
+  if (present.length === 0) {
+    return { type: 'text', confidence: 0, format: {} };
+  }
+
+  const texts = present
+    .filter(cell => typeof cell.value === 'string')
+    .map(cell => String(cell.text ?? cell.value).trim());
+  const conventions = detectConventions(texts);
+  const classified = present.map(cell => classifyCell(cell, conventions));
+
+  const count = (kind: CellKind) => classified.filter(cell => cell.kind === kind).length;
+  const numbers = classified.filter(cell => cell.kind === 'number');
+  const integers = numbers.filter(cell => Number.isInteger(cell.number)).length;
+  const zeroOrOne = numbers.filter(cell => cell.number === 0 || cell.number === 1).length;
+
+  // Cells that fit each type. Plain numbers fit currency and percentage
+  // columns, integers fit ID columns and 0/1 fit boolean ones.
+  const markers: Partial<Record<ColumnType, number>> = {
+    email: count('email'),
+    url: count('url'),
+    date: count('date'),
+    boolean: count('boolean'),
+    id: count('id'),
+    currency: count('currency'),
+    percentage: count('percentage'),
+    number: numbers.length,
+  };
+  const fits: Partial<Record<ColumnType, number>> = {
+    ...markers,
+    boolean: markers.boolean! + (markers.boolean! > 0 ? zeroOrOne : 0),
+    id: markers.id! + integers,
+    currency: markers.currency! + numbers.length,
+    percentage: markers.percentage! + numbers.length,
+  };
+
+  // A column of nothing but 0 and 1 reads as a flag, though it may be a count
+  const onlyZeroOne = markers.boolean === 0 && zeroOrOne === present.length
+    && numbers.some(cell => cell.number === 0) && numbers.some(cell => cell.number === 1);
+  if (onlyZeroOne) fits.boolean = present.length;
+
+  let best: ColumnType | null = null;
+  for (const type of TYPE_PRIORITY) {
+    const fit = fits[type] || 0;
+    const marker = markers[type] || 0;
+    if (marker === 0 && !(type === 'boolean' && onlyZeroOne)) continue;
+    if (fit > 0 && marker < fit * (MARKER_SHARE[type] ?? 0)) continue;
+    if (best === null || fit > (fits[best] || 0)) best = type;
+  }
+
+  if (best !== null && (fits[best] || 0) / present.length >= MIN_TYPE_SHARE) {
+    let confidence = (fits[best] || 0) / present.length;
+    if (best === 'boolean' && onlyZeroOne) confidence *= 0.7;
+
+    const format: ColumnFormat = {};
+    if (best === 'number' || best === 'currency' || best === 'percentage') {
+      const values = classified.filter(cell => cell.number !== undefined);
+      const scale = best === 'percentage' ? 100 : 1;
+      format.numberKind = values.every(cell => Number.isInteger(Math.round(cell.number! * scale * 1e9) / 1e9)) ? 'integer' : 'decimal';
+      if (texts.length > 0) format.decimalSeparator = conventions.decimalSeparator;
+    }
+    if (best === 'currency') {
+      format.currency = mostCommon(classified.map(cell => cell.currency));
+    }
+    if (best === 'date') {
+      format.dateFormat = mostCommon(classified.map(cell => cell.dateFormat));
+      if (format.dateFormat !== 'excel' && /^(DD|MM)/.test(format.dateFormat || '') && conventions.dateOrderGuessed) {
+        confidence *= 0.9;
+      }
+    }
+
+    return { type: best, confidence: round(confidence), format };
+  }
+
+  // Text: a category when few distinct values repeat, otherwise free text
+  const distinct = new Set(present.map(cell => String(cell.text ?? cell.value).trim())).size;
+  if (distinct < present.length && distinct <= Math.max(10, present.length * 0.1)) {
+    return { type: 'category', confidence: round(1 - distinct / present.length), format: {} };
+  }
+  return { type: 'text', confidence: round(count('text') / present.length), format: {} };
+}
+
+const TRUE_WORDS = new Set(['true', 'yes', 'y', '1']);
+const FALSE_WORDS = new Set(['false', 'no', 'n', '0']);
+
+// Excel date cells are read as Dates; a serial day number in a cell without a
+// date format is converted the same way
+function excelSerialToDate(serial: number): Date {
+  return new Date(Math.round((serial - 25569) * 86400000));
+}
+
+function convertCell(cell: CellSample, type: ColumnType, conventions: Conventions): unknown {
+  if (isBlank(cell.value)) return null;
+  const text = String(cell.text ?? cell.value).trim();
+
+  switch (type) {
+    case 'number':
+    case 'currency':
+    case 'percentage':
+      if (typeof cell.value === 'number') return cell.value;
+      return parseNumericText(text, conventions.decimalSeparator)?.value ?? null;
+    case 'date':
+      if (cell.value instanceof Date) return cell.value;
+      if (typeof cell.value === 'number') return excelSerialToDate(cell.value);
+      return parseDate(text, conventions.dateOrder)?.date ?? null;
+    case 'boolean':
+      if (typeof cell.value === 'boolean') return cell.value;
+      if (TRUE_WORDS.has(text.toLowerCase())) return true;
+      return FALSE_WORDS.has(text.toLowerCase()) ? false : null;
+    default:
+      // The text as written, so IDs keep their leading zeros
+      return text;
+  }
+}
+
+// A column's values read as the given type, from each cell's value or its
+// text; numbers and dates follow the column's own conventions. Cells that do
+// not read as the type become null.
+export function convertColumn(cells: CellSample[], type: ColumnType): unknown[] {
+  const texts = cells
+    .filter(cell => typeof cell.value === 'string')
+    .map(cell => String(cell.text ?? cell.value).trim());
+  const conventions = detectConventions(texts);
+  return cells.map(cell => convertCell(cell, type, conventions));
+}
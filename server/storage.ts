@@ -1,37 +1,81 @@
 import { 
-  users, uploads, playbooks, runs,
+  users, uploads, playbooks, playbookVersions, runs, workspaces, workspaceMembers,
+  conversations, conversationMessages, pipelines,
   type User, type InsertUser,
   type Upload, type InsertUpload,
-  type Playbook, type InsertPlaybook,
-  type Run, type InsertRun
+  type Playbook, type InsertPlaybook, type AccessiblePlaybook,
+  type UpdatePlaybook, type PlaybookVersion,
+  type Run, type InsertRun,
+  type Workspace, type InsertWorkspace, type WorkspaceMember, type WorkspaceRole,
+  type Conversation, type InsertConversation, type ConversationMessage, type InsertConversationMessage,
+  type Pipeline, type InsertPipeline, type UpdatePipeline
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and, isNull, gte, sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import { eq, desc, and, or, isNull, gte, inArray, sql } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+  
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
   createUpload(upload: InsertUpload): Promise<Upload>;
-  getUpload(id: string): Promise<Upload | undefined>;
-  getActiveUploads(userId?: string): Promise<Upload[]>;
+  getUpload(id: string, userId: string): Promise<Upload | undefined>;
+  getActiveUploads(userId: string): Promise<Upload[]>;
+  updateUploadSheets(id: string, sheets: Upload['sheets']): Promise<Upload | undefined>;
   deleteUpload(id: string): Promise<void>;
-  markUploadDeleted(id: string): Promise<void>;
+  markUploadDeleted(id: string, userId: string): Promise<void>;
   
   createPlaybook(playbook: InsertPlaybook): Promise<Playbook>;
-  getPlaybooks(userId?: string): Promise<Playbook[]>;
-  getPlaybook(id: string): Promise<Playbook | undefined>;
+  getPlaybooks(userId: string): Promise<AccessiblePlaybook[]>;
+  getPlaybook(id: string, userId: string): Promise<AccessiblePlaybook | undefined>;
   incrementPlaybookUsage(id: string): Promise<void>;
+  setPlaybookWorkspace(id: string, workspaceId: string | null): Promise<void>;
+  updatePlaybook(id: string, changes: UpdatePlaybook, userId: string): Promise<{ playbook: Playbook; version: PlaybookVersion }>;
+  getPlaybookVersions(playbookId: string): Promise<PlaybookVersion[]>;
+  getPlaybookVersion(playbookId: string, version: number): Promise<PlaybookVersion | undefined>;
+  
+  createPipeline(pipeline: InsertPipeline): Promise<Pipeline>;
+  getPipelines(userId: string): Promise<Pipeline[]>;
+  getPipeline(id: string, userId: string): Promise<Pipeline | undefined>;
+  updatePipeline(id: string, changes: UpdatePipeline): Promise<Pipeline>;
+  deletePipeline(id: string): Promise<void>;
+  
+  createWorkspace(workspace: InsertWorkspace, ownerId: string): Promise<Workspace>;
+  getWorkspaces(userId: string): Promise<Array<Workspace & { role: WorkspaceRole }>>;
+  getWorkspaceMembership(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined>;
+  getWorkspaceMembers(workspaceId: string): Promise<Array<WorkspaceMember & { username: string }>>;
+  addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember>;
+  updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<void>;
   
   createRun(run: InsertRun): Promise<Run>;
-  getRun(id: string): Promise<Run | undefined>;
-  getRuns(userId?: string): Promise<Run[]>;
+  getRun(id: string, userId: string): Promise<Run | undefined>;
+  getRuns(userId: string): Promise<Run[]>;
+  getRunAttempts(id: string, userId: string): Promise<Run[]>;
   updateRunStatus(id: string, status: string, result?: any): Promise<void>;
-  getRecentRuns(userId?: string, limit?: number): Promise<Run[]>;
+  getRecentRuns(userId: string, limit?: number): Promise<Run[]>;
+  failInterruptedRuns(errorMessage: string): Promise<number>;
+  
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  getConversation(id: string, userId: string): Promise<Conversation | undefined>;
+  getConversationMessages(conversationId: string): Promise<ConversationMessage[]>;
+  addConversationMessages(conversationId: string, messages: Omit<InsertConversationMessage, 'conversationId'>[]): Promise<ConversationMessage[]>;
+  getConversationRuns(conversationId: string, userId: string): Promise<Run[]>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -58,66 +102,164 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getUpload(id: string): Promise<Upload | undefined> {
+  async getUpload(id: string, userId: string): Promise<Upload | undefined> {
     const [upload] = await db
       .select()
       .from(uploads)
-      .where(and(eq(uploads.id, id), eq(uploads.isDeleted, false)));
+      .where(and(eq(uploads.id, id), eq(uploads.userId, userId), eq(uploads.isDeleted, false)));
     return upload || undefined;
   }
 
-  async getActiveUploads(userId?: string): Promise<Upload[]> {
-    const conditions = [
-      eq(uploads.isDeleted, false),
-      gte(uploads.expiresAt, new Date())
-    ];
-    
-    if (userId) {
-      conditions.push(eq(uploads.userId, userId));
-    }
-
+  async getActiveUploads(userId: string): Promise<Upload[]> {
     return await db
       .select()
       .from(uploads)
-      .where(and(...conditions))
+      .where(and(
+        eq(uploads.userId, userId),
+        eq(uploads.isDeleted, false),
+        gte(uploads.expiresAt, new Date())
+      ))
       .orderBy(desc(uploads.createdAt));
   }
 
+  async updateUploadSheets(id: string, sheets: Upload['sheets']): Promise<Upload | undefined> {
+    const [upload] = await db
+      .update(uploads)
+      .set({ sheets })
+      .where(eq(uploads.id, id))
+      .returning();
+    return upload || undefined;
+  }
+
   async deleteUpload(id: string): Promise<void> {
     await db.delete(uploads).where(eq(uploads.id, id));
   }
 
-  async markUploadDeleted(id: string): Promise<void> {
+  async markUploadDeleted(id: string, userId: string): Promise<void> {
     await db
       .update(uploads)
       .set({ isDeleted: true })
-      .where(eq(uploads.id, id));
+      .where(and(eq(uploads.id, id), eq(uploads.userId, userId)));
   }
 
   async createPlaybook(playbook: InsertPlaybook): Promise<Playbook> {
-    const [result] = await db
-      .insert(playbooks)
-      .values(playbook as any)
-      .returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [result] = await tx
+        .insert(playbooks)
+        .values(playbook as any)
+        .returning();
+      await tx
+        .insert(playbookVersions)
+        .values({
+          playbookId: result.id,
+          version: result.currentVersion,
+          nlInstruction: result.nlInstruction,
+          generatedCode: result.generatedCode,
+          parameters: result.parameters,
+          createdBy: result.userId,
+        });
+      return result;
+    });
   }
 
-  async getPlaybooks(userId?: string): Promise<Playbook[]> {
-    const query = db.select().from(playbooks);
+  async updatePlaybook(
+    id: string,
+    changes: UpdatePlaybook,
+    userId: string
+  ): Promise<{ playbook: Playbook; version: PlaybookVersion }> {
+    const { changeNote, ...fields } = changes;
     
-    if (userId) {
-      return await query.where(eq(playbooks.userId, userId)).orderBy(desc(playbooks.updatedAt));
+    return await db.transaction(async (tx) => {
+      // Bumping currentVersion row-locks the playbook, so concurrent edits get distinct numbers
+      const [playbook] = await tx
+        .update(playbooks)
+        .set({
+          ...fields,
+          currentVersion: sql`${playbooks.currentVersion} + 1`,
+          updatedAt: new Date()
+        } as any)
+        .where(eq(playbooks.id, id))
+        .returning();
+      const [version] = await tx
+        .insert(playbookVersions)
+        .values({
+          playbookId: id,
+          version: playbook.currentVersion,
+          nlInstruction: playbook.nlInstruction,
+          generatedCode: playbook.generatedCode,
+          parameters: playbook.parameters,
+          changeNote,
+          createdBy: userId,
+        })
+        .returning();
+      return { playbook, version };
+    });
+  }
+
+  async getPlaybookVersions(playbookId: string): Promise<PlaybookVersion[]> {
+    return await db
+      .select()
+      .from(playbookVersions)
+      .where(eq(playbookVersions.playbookId, playbookId))
+      .orderBy(desc(playbookVersions.version));
+  }
+
+  async getPlaybookVersion(playbookId: string, version: number): Promise<PlaybookVersion | undefined> {
+    const [result] = await db
+      .select()
+      .from(playbookVersions)
+      .where(and(eq(playbookVersions.playbookId, playbookId), eq(playbookVersions.version, version)));
+    return result || undefined;
+  }
+
+  private async getMembershipRoles(userId: string): Promise<Map<string, WorkspaceRole>> {
+    const memberships = await db
+      .select({ workspaceId: workspaceMembers.workspaceId, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .where(eq(workspaceMembers.userId, userId));
+    return new Map(memberships.map(m => [m.workspaceId, m.role]));
+  }
+
+  // The creator always has full access; otherwise access comes from the
+  // user's role in the workspace the playbook is shared to
+  private withAccessRole(
+    playbook: Playbook,
+    userId: string,
+    roles: Map<string, WorkspaceRole>
+  ): AccessiblePlaybook | undefined {
+    if (playbook.userId === userId) {
+      return { ...playbook, accessRole: 'owner' };
     }
+    const role = playbook.workspaceId ? roles.get(playbook.workspaceId) : undefined;
+    return role ? { ...playbook, accessRole: role } : undefined;
+  }
+
+  async getPlaybooks(userId: string): Promise<AccessiblePlaybook[]> {
+    const roles = await this.getMembershipRoles(userId);
+    const workspaceIds = Array.from(roles.keys());
     
-    return await query.orderBy(desc(playbooks.updatedAt));
+    const visible = await db
+      .select()
+      .from(playbooks)
+      .where(workspaceIds.length > 0
+        ? or(eq(playbooks.userId, userId), inArray(playbooks.workspaceId, workspaceIds))
+        : eq(playbooks.userId, userId))
+      .orderBy(desc(playbooks.updatedAt));
+    
+    return visible
+      .map(playbook => this.withAccessRole(playbook, userId, roles))
+      .filter((playbook): playbook is AccessiblePlaybook => !!playbook);
   }
 
-  async getPlaybook(id: string): Promise<Playbook | undefined> {
+  async getPlaybook(id: string, userId: string): Promise<AccessiblePlaybook | undefined> {
     const [playbook] = await db
       .select()
       .from(playbooks)
       .where(eq(playbooks.id, id));
-    return playbook || undefined;
+    
+    if (!playbook) return undefined;
+    
+    return this.withAccessRole(playbook, userId, await this.getMembershipRoles(userId));
   }
 
   async incrementPlaybookUsage(id: string): Promise<void> {
@@ -130,6 +272,112 @@ export class DatabaseStorage implements IStorage {
       .where(eq(playbooks.id, id));
   }
 
+  async setPlaybookWorkspace(id: string, workspaceId: string | null): Promise<void> {
+    await db
+      .update(playbooks)
+      .set({ workspaceId, updatedAt: new Date() })
+      .where(eq(playbooks.id, id));
+  }
+
+  async createWorkspace(workspace: InsertWorkspace, ownerId: string): Promise<Workspace> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx
+        .insert(workspaces)
+        .values({ ...workspace, createdBy: ownerId })
+        .returning();
+      await tx
+        .insert(workspaceMembers)
+        .values({ workspaceId: result.id, userId: ownerId, role: 'owner' });
+      return result;
+    });
+  }
+
+  async getWorkspaces(userId: string): Promise<Array<Workspace & { role: WorkspaceRole }>> {
+    const rows = await db
+      .select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(workspaces.name);
+    return rows.map(row => ({ ...row.workspace, role: row.role }));
+  }
+
+  async getWorkspaceMembership(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<Array<WorkspaceMember & { username: string }>> {
+    const rows = await db
+      .select({ member: workspaceMembers, username: users.username })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(workspaceMembers.createdAt);
+    return rows.map(row => ({ ...row.member, username: row.username }));
+  }
+
+  async addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember> {
+    const [member] = await db
+      .insert(workspaceMembers)
+      .values({ workspaceId, userId, role })
+      .returning();
+    return member;
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+    await db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+    await db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
+  async createPipeline(pipeline: InsertPipeline): Promise<Pipeline> {
+    const [result] = await db
+      .insert(pipelines)
+      .values(pipeline)
+      .returning();
+    return result;
+  }
+
+  async getPipelines(userId: string): Promise<Pipeline[]> {
+    return await db
+      .select()
+      .from(pipelines)
+      .where(eq(pipelines.userId, userId))
+      .orderBy(desc(pipelines.updatedAt));
+  }
+
+  async getPipeline(id: string, userId: string): Promise<Pipeline | undefined> {
+    const [pipeline] = await db
+      .select()
+      .from(pipelines)
+      .where(and(eq(pipelines.id, id), eq(pipelines.userId, userId)));
+    return pipeline || undefined;
+  }
+
+  async updatePipeline(id: string, changes: UpdatePipeline): Promise<Pipeline> {
+    const [pipeline] = await db
+      .update(pipelines)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(pipelines.id, id))
+      .returning();
+    return pipeline;
+  }
+
+  async deletePipeline(id: string): Promise<void> {
+    await db.delete(pipelines).where(eq(pipelines.id, id));
+  }
+
   async createRun(run: InsertRun): Promise<Run> {
     const [result] = await db
       .insert(runs)
@@ -138,28 +386,43 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getRun(id: string): Promise<Run | undefined> {
+  async getRun(id: string, userId: string): Promise<Run | undefined> {
     const [run] = await db
       .select()
       .from(runs)
-      .where(eq(runs.id, id));
+      .where(and(eq(runs.id, id), eq(runs.userId, userId)));
     return run || undefined;
   }
 
-  async getRuns(userId?: string): Promise<Run[]> {
-    const query = db.select().from(runs);
-    
-    if (userId) {
-      return await query.where(eq(runs.userId, userId)).orderBy(desc(runs.createdAt));
+  async getRuns(userId: string): Promise<Run[]> {
+    return await db
+      .select()
+      .from(runs)
+      .where(eq(runs.userId, userId))
+      .orderBy(desc(runs.createdAt));
+  }
+
+  // Every attempt of an auto-fix chain the run belongs to, first attempt first
+  async getRunAttempts(id: string, userId: string): Promise<Run[]> {
+    let run = await this.getRun(id, userId);
+    while (run?.previousRunId) {
+      const previous = await this.getRun(run.previousRunId, userId);
+      if (!previous) break;
+      run = previous;
     }
-    
-    return await query.orderBy(desc(runs.createdAt));
+
+    const attempts: Run[] = [];
+    while (run) {
+      attempts.push(run);
+      run = run.nextRunId ? await this.getRun(run.nextRunId, userId) : undefined;
+    }
+    return attempts;
   }
 
   async updateRunStatus(id: string, status: string, result?: any): Promise<void> {
     const updateData: any = { status };
     
-    if (status === 'completed' || status === 'failed') {
+    if (status === 'completed' || status === 'failed' || status === 'cancelled') {
       updateData.completedAt = new Date();
     }
     
@@ -168,6 +431,8 @@ export class DatabaseStorage implements IStorage {
       if (result.s3Key) updateData.resultS3Key = result.s3Key;
       if (result.error) updateData.errorMessage = result.error;
       if (result.executionTime) updateData.executionTimeMs = result.executionTime;
+      if (result.nextRunId) updateData.nextRunId = result.nextRunId;
+      if (result.stepResults) updateData.stepResults = result.stepResults;
     }
 
     await db
@@ -176,20 +441,78 @@ export class DatabaseStorage implements IStorage {
       .where(eq(runs.id, id));
   }
 
-  async getRecentRuns(userId?: string, limit: number = 10): Promise<Run[]> {
-    const query = db.select().from(runs);
-    
-    if (userId) {
-      return await query
-        .where(eq(runs.userId, userId))
-        .orderBy(desc(runs.createdAt))
-        .limit(limit);
-    }
-    
-    return await query
+  async getRecentRuns(userId: string, limit: number = 10): Promise<Run[]> {
+    return await db
+      .select()
+      .from(runs)
+      .where(eq(runs.userId, userId))
       .orderBy(desc(runs.createdAt))
       .limit(limit);
   }
+
+  async failInterruptedRuns(errorMessage: string): Promise<number> {
+    const interrupted = await db
+      .update(runs)
+      .set({ status: 'failed', errorMessage, completedAt: new Date() })
+      .where(inArray(runs.status, ['pending', 'running']))
+      .returning({ id: runs.id });
+    return interrupted.length;
+  }
+
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    const [result] = await db
+      .insert(conversations)
+      .values(conversation)
+      .returning();
+    return result;
+  }
+
+  async getConversation(id: string, userId: string): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.id, id), eq(conversations.userId, userId)));
+    return conversation || undefined;
+  }
+
+  async getConversationMessages(conversationId: string): Promise<ConversationMessage[]> {
+    return await db
+      .select()
+      .from(conversationMessages)
+      .where(eq(conversationMessages.conversationId, conversationId))
+      .orderBy(conversationMessages.createdAt);
+  }
+
+  async addConversationMessages(
+    conversationId: string,
+    messages: Omit<InsertConversationMessage, 'conversationId'>[]
+  ): Promise<ConversationMessage[]> {
+    return await db.transaction(async (tx) => {
+      // Messages of one turn share a transaction, so explicit timestamps keep them in order
+      const now = Date.now();
+      const inserted = await tx
+        .insert(conversationMessages)
+        .values(messages.map((message, index) => ({
+          ...message,
+          conversationId,
+          createdAt: new Date(now + index)
+        })) as any)
+        .returning();
+      await tx
+        .update(conversations)
+        .set({ updatedAt: new Date() })
+        .where(eq(conversations.id, conversationId));
+      return inserted;
+    });
+  }
+
+  async getConversationRuns(conversationId: string, userId: string): Promise<Run[]> {
+    return await db
+      .select()
+      .from(runs)
+      .where(and(eq(runs.conversationId, conversationId), eq(runs.userId, userId)))
+      .orderBy(runs.createdAt);
+  }
 }
 
 export const storage = new DatabaseStorage();
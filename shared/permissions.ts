@@ -0,0 +1,23 @@
+import type { WorkspaceRole } from "./schema";
+
+export type PlaybookPermission = 'view' | 'run' | 'edit' | 'share';
+
+const rolePermissions: Record<WorkspaceRole, PlaybookPermission[]> = {
+  owner: ['view', 'run', 'edit', 'share'],
+  editor: ['view', 'run', 'edit'],
+  runner: ['view', 'run'],
+  viewer: ['view'],
+};
+
+export function canAccessPlaybook(role: WorkspaceRole, permission: PlaybookPermission): boolean {
+  return rolePermissions[role].includes(permission);
+}
+
+// Only owners manage membership; owners and editors may share playbooks into a workspace
+export function canManageWorkspace(role: WorkspaceRole): boolean {
+  return role === 'owner';
+}
+
+export function canShareIntoWorkspace(role: WorkspaceRole): boolean {
+  return role === 'owner' || role === 'editor';
+}
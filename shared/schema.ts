@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, jsonb, boolean, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -10,6 +10,161 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// Ordered from most to least privileged
+export const workspaceRoles = ['owner', 'editor', 'runner', 'viewer'] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+export type PlaybookParameter = {
+  name: string;
+  type: string; // 'string' | 'number' | 'date' | 'boolean' | 'column'
+  defaultValue: any;
+  description?: string;
+  required?: boolean;
+  allowedValues?: any[];
+};
+
+// A column of the sheet a playbook was saved against; required columns are
+// referenced by the generated code and must be mapped before a run
+export type PlaybookInputColumn = {
+  name: string;
+  type: string;
+  required: boolean;
+};
+
+// One step of a pipeline: generated code, or a saved playbook at its current version.
+// The id stays stable when steps are reordered.
+export type PipelineStep = {
+  id: string;
+  name: string;
+  kind: 'code' | 'playbook';
+  enabled: boolean;
+  nlInstruction?: string;
+  code?: string;
+  playbookId?: string;
+  parameters: Record<string, any>;
+};
+
+export type PipelineStepResult = {
+  stepId: string;
+  name: string;
+  status: 'completed' | 'failed' | 'skipped' | 'not_run';
+  inputRowCount?: number;
+  outputRowCount?: number;
+  executionTimeMs?: number;
+  preview?: Array<Record<string, any>>;
+  error?: string;
+};
+
+export const COLUMN_TYPES = [
+  'text', 'number', 'currency', 'percentage', 'date', 'boolean', 'category', 'id', 'email', 'url'
+] as const;
+export type ColumnType = typeof COLUMN_TYPES[number];
+
+// How an uploaded column's values are written, as found by type inference
+export type ColumnFormat = {
+  // Number, currency and percentage columns
+  numberKind?: 'integer' | 'decimal';
+  // Set when numbers are written as text; ',' for e.g. "1.234,56"
+  decimalSeparator?: '.' | ',';
+  // Most common symbol or ISO code in a currency column, e.g. "$" or "EUR"
+  currency?: string;
+  // "excel" for date-formatted Excel cells, otherwise the text layout, e.g. "DD/MM/YYYY"
+  dateFormat?: string;
+};
+
+// How a sheet is read from the stored file, when the user corrected detection
+export type SheetParseOptions = {
+  // Row holding the column names, counted from the first row of the sheet (0-based)
+  headerRow: number;
+  // Rows dropped right below the header and at the end of the sheet, e.g. units or totals
+  skipLeadingRows: number;
+  skipTrailingRows: number;
+  // Column name -> type set by the user over the inferred one
+  columnTypes: Record<string, ColumnType>;
+};
+
+// Statistics over every value of an uploaded column, computed at upload time
+export type ColumnProfile = {
+  // Non-empty cells
+  count: number;
+  nullCount: number;
+  distinctCount: number;
+  // Non-empty cells by the kind of value they hold: number, boolean, date, text
+  valueKinds: Record<string, number>;
+  // Most frequent values, most frequent first
+  topValues: Array<{ value: string; count: number }>;
+  // Cells that look like emails, phone numbers or URLs
+  patterns: { email: number; phone: number; url: number };
+  // Number and currency columns
+  numeric?: {
+    min: number;
+    max: number;
+    mean: number;
+    stdDev: number;
+    quantiles: { p5: number; p25: number; p50: number; p75: number; p95: number };
+    // Values beyond 1.5 interquartile ranges from the quartiles
+    outlierCount: number;
+  };
+  // Date columns, as ISO dates
+  dateRange?: { min: string; max: string };
+  // Data-quality findings in plain words, e.g. "Mixed types: 98 number, 2 text"
+  issues: string[];
+};
+
+// One row of a result diff's sample; records are keyed by column name
+export type ResultDiffRow = {
+  kind: 'changed' | 'removed' | 'added';
+  // Index label of a changed row
+  label?: string;
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+  // Result column names whose value differs, for changed rows
+  changedColumns?: string[];
+};
+
+// What a transformation did to its input, computed in the worker
+export type ResultDiff = {
+  // Rows are matched by index label, or by content when the code rebuilt the index
+  matchedBy: 'index' | 'content';
+  rowsRemoved: number;
+  rowsAdded: number;
+  rowsChanged: number;
+  cellsChanged: number;
+  cellsChangedByColumn: Record<string, number>;
+  columnsAdded: string[];
+  columnsDropped: string[];
+  columnsRenamed: Array<{ from: string; to: string }>;
+  beforeColumns: string[];
+  afterColumns: string[];
+  sample: ResultDiffRow[];
+  sampleTruncated: boolean;
+};
+
+// A sheet of any of the user's uploads handed to transform_data as inputs[name],
+// next to the main sheet's df
+export type InputSheet = {
+  name: string;
+  uploadId: string;
+  sheetName: string;
+};
+
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  role: text("role").notNull().$type<WorkspaceRole>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  workspaceUser: unique().on(table.workspaceId, table.userId),
+}));
+
 export const uploads = pgTable("uploads", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id"),
@@ -26,8 +181,17 @@ export const uploads = pgTable("uploads", {
       name: string;
       type: string;
       index: number;
+      // Share of sampled cells that fit the type, 0-1; absent on older uploads.
+      // 1 for a type set by the user, with the detected one in inferredType.
+      confidence?: number;
+      inferredType?: string;
+      format?: ColumnFormat;
+      // Absent on uploads made before profiling
+      profile?: ColumnProfile;
     }>;
     preview: Array<Record<string, any>>;
+    // Absent while the sheet is read as detected
+    parseOptions?: SheetParseOptions;
   }>>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at").notNull(),
@@ -37,36 +201,65 @@ export const uploads = pgTable("uploads", {
 export const playbooks = pgTable("playbooks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id"),
+  workspaceId: varchar("workspace_id"),
   name: text("name").notNull(),
   description: text("description"),
   nlInstruction: text("nl_instruction").notNull(),
   generatedCode: text("generated_code").notNull(),
-  parameters: jsonb("parameters").notNull().$type<Array<{
-    name: string;
-    type: string;
-    defaultValue: any;
-    description?: string;
-  }>>(),
+  parameters: jsonb("parameters").notNull().$type<PlaybookParameter[]>(),
+  inputColumns: jsonb("input_columns").notNull().default([]).$type<PlaybookInputColumn[]>(),
+  currentVersion: integer("current_version").default(1).notNull(),
   usageCount: integer("usage_count").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Immutable snapshots; every edit or rollback of a playbook appends one
+export const playbookVersions = pgTable("playbook_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  playbookId: varchar("playbook_id").notNull(),
+  version: integer("version").notNull(),
+  nlInstruction: text("nl_instruction").notNull(),
+  generatedCode: text("generated_code").notNull(),
+  parameters: jsonb("parameters").notNull().$type<PlaybookParameter[]>(),
+  changeNote: text("change_note"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  playbookVersion: unique().on(table.playbookId, table.version),
+}));
+
 export const runs = pgTable("runs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id"),
   uploadId: varchar("upload_id").notNull(),
   playbookId: varchar("playbook_id"),
+  playbookVersionId: varchar("playbook_version_id"),
   sheetName: text("sheet_name").notNull(),
   nlInstruction: text("nl_instruction").notNull(),
   generatedCode: text("generated_code").notNull(),
   parameters: jsonb("parameters").$type<Record<string, any>>(),
-  status: text("status").notNull(), // 'pending', 'running', 'completed', 'failed'
+  // Sheet column -> playbook input column renames applied before transform_data
+  columnMapping: jsonb("column_mapping").$type<Record<string, string>>(),
+  conversationId: varchar("conversation_id"),
+  // Extra sheets passed to transform_data besides the main one
+  inputSheets: jsonb("input_sheets").$type<InputSheet[]>(),
+  pipelineId: varchar("pipeline_id"),
+  // One entry per pipeline step, disabled ones included; null for single-code runs
+  stepResults: jsonb("step_results").$type<PipelineStepResult[]>(),
+  // Auto-fix chain: the failed run this attempt repairs, and the attempt queued after this one failed
+  previousRunId: varchar("previous_run_id"),
+  nextRunId: varchar("next_run_id"),
+  attempt: integer("attempt").notNull().default(1),
+  status: text("status").notNull(), // 'pending', 'running', 'completed', 'failed', 'cancelled'
   resultSummary: jsonb("result_summary").$type<{
     originalRowCount: number;
     resultRowCount: number;
     rowsAffected: number;
+    previewRowCount: number;
     preview: Array<Record<string, any>>;
+    dtypes?: Record<string, string>;
+    diff?: ResultDiff;
   }>(),
   resultS3Key: text("result_s3_key"),
   errorMessage: text("error_message"),
@@ -75,12 +268,73 @@ export const runs = pgTable("runs", {
   completedAt: timestamp("completed_at"),
 });
 
+// An ordered list of steps; each step's output DataFrame is the next one's input
+export const pipelines = pgTable("pipelines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  steps: jsonb("steps").notNull().$type<PipelineStep[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A chat about one sheet; each follow-up instruction edits the code of the turn before it
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  uploadId: varchar("upload_id").notNull(),
+  sheetName: text("sheet_name").notNull(),
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const conversationRoles = ['user', 'assistant'] as const;
+export type ConversationRole = typeof conversationRoles[number];
+
+export const conversationMessages = pgTable("conversation_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").notNull(),
+  role: text("role").notNull().$type<ConversationRole>(),
+  // The instruction for user messages, the explanation of the code for assistant messages
+  content: text("content").notNull(),
+  generatedCode: text("generated_code"),
+  confidence: text("confidence"),
+  parameters: jsonb("parameters").$type<PlaybookParameter[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const workspacesRelations = relations(workspaces, ({ many }) => ({
+  members: many(workspaceMembers),
+  playbooks: many(playbooks),
+}));
+
+export const workspaceMembersRelations = relations(workspaceMembers, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [workspaceMembers.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
 export const uploadsRelations = relations(uploads, ({ many }) => ({
   runs: many(runs),
 }));
 
-export const playbooksRelations = relations(playbooks, ({ many }) => ({
+export const playbooksRelations = relations(playbooks, ({ one, many }) => ({
   runs: many(runs),
+  versions: many(playbookVersions),
+  workspace: one(workspaces, {
+    fields: [playbooks.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+export const playbookVersionsRelations = relations(playbookVersions, ({ one }) => ({
+  playbook: one(playbooks, {
+    fields: [playbookVersions.playbookId],
+    references: [playbooks.id],
+  }),
 }));
 
 export const runsRelations = relations(runs, ({ one }) => ({
@@ -92,6 +346,34 @@ export const runsRelations = relations(runs, ({ one }) => ({
     fields: [runs.playbookId],
     references: [playbooks.id],
   }),
+  playbookVersion: one(playbookVersions, {
+    fields: [runs.playbookVersionId],
+    references: [playbookVersions.id],
+  }),
+  conversation: one(conversations, {
+    fields: [runs.conversationId],
+    references: [conversations.id],
+  }),
+  pipeline: one(pipelines, {
+    fields: [runs.pipelineId],
+    references: [pipelines.id],
+  }),
+}));
+
+export const pipelinesRelations = relations(pipelines, ({ many }) => ({
+  runs: many(runs),
+}));
+
+export const conversationsRelations = relations(conversations, ({ many }) => ({
+  messages: many(conversationMessages),
+  runs: many(runs),
+}));
+
+export const conversationMessagesRelations = relations(conversationMessages, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [conversationMessages.conversationId],
+    references: [conversations.id],
+  }),
 }));
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -99,6 +381,11 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
 export const insertUploadSchema = createInsertSchema(uploads).omit({
   id: true,
   createdAt: true,
@@ -106,17 +393,113 @@ export const insertUploadSchema = createInsertSchema(uploads).omit({
 
 export const insertPlaybookSchema = createInsertSchema(playbooks).omit({
   id: true,
+  workspaceId: true,
+  currentVersion: true,
   createdAt: true,
   updatedAt: true,
   usageCount: true,
 });
 
+export const updatePlaybookSchema = insertPlaybookSchema.pick({
+  name: true,
+  description: true,
+  nlInstruction: true,
+  generatedCode: true,
+  parameters: true,
+}).partial({
+  name: true,
+  description: true,
+}).extend({
+  changeNote: z.string().optional(),
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces).pick({
+  name: true,
+}).extend({
+  name: z.string().trim().min(1, "Workspace name is required"),
+});
+
+export const workspaceMemberInputSchema = z.object({
+  username: z.string().trim().min(1),
+  role: z.enum(workspaceRoles),
+});
+
 export const insertRunSchema = createInsertSchema(runs).omit({
   id: true,
   createdAt: true,
   completedAt: true,
 });
 
+export const pipelineStepSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Step name is required"),
+  kind: z.enum(['code', 'playbook']),
+  enabled: z.boolean(),
+  nlInstruction: z.string().optional(),
+  code: z.string().optional(),
+  playbookId: z.string().optional(),
+  parameters: z.record(z.any()).default({}),
+}).refine(
+  step => step.kind === 'code' ? !!step.code?.trim() : !!step.playbookId,
+  step => ({ message: step.kind === 'code' ? "Code steps need code" : "Playbook steps need a playbook" })
+);
+
+export const insertPipelineSchema = createInsertSchema(pipelines).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Pipeline name is required"),
+  steps: z.array(pipelineStepSchema),
+});
+
+export const updatePipelineSchema = insertPipelineSchema.pick({
+  name: true,
+  description: true,
+  steps: true,
+}).partial();
+
+export const inputSheetSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Input names must be valid Python identifiers"),
+  uploadId: z.string().min(1),
+  sheetName: z.string().min(1),
+});
+
+export const sheetParseOptionsSchema = z.object({
+  headerRow: z.number().int().min(0).max(1000).default(0),
+  skipLeadingRows: z.number().int().min(0).default(0),
+  skipTrailingRows: z.number().int().min(0).default(0),
+  columnTypes: z.record(z.string(), z.enum(COLUMN_TYPES)).default({}),
+});
+
+export const inputSheetsSchema = z.array(inputSheetSchema)
+  .max(20, "At most 20 extra input sheets")
+  .refine(
+    inputs => new Set(inputs.map(input => input.name)).size === inputs.length,
+    "Input names must be unique"
+  )
+  .default([]);
+
+export const pipelineRunSchema = z.object({
+  uploadId: z.string().min(1),
+  sheetName: z.string().min(1),
+  steps: z.array(pipelineStepSchema).min(1, "A pipeline needs at least one step"),
+  // Set when the steps come from a saved pipeline
+  pipelineId: z.string().optional(),
+  inputSheets: inputSheetsSchema,
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertConversationMessageSchema = createInsertSchema(conversationMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Upload = typeof uploads.$inferSelect;
@@ -125,3 +508,19 @@ export type Playbook = typeof playbooks.$inferSelect;
 export type InsertPlaybook = z.infer<typeof insertPlaybookSchema>;
 export type Run = typeof runs.$inferSelect;
 export type InsertRun = z.infer<typeof insertRunSchema>;
+export type UpdatePlaybook = z.infer<typeof updatePlaybookSchema>;
+export type PlaybookVersion = typeof playbookVersions.$inferSelect;
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type Pipeline = typeof pipelines.$inferSelect;
+export type InsertPipeline = z.infer<typeof insertPipelineSchema>;
+export type UpdatePipeline = z.infer<typeof updatePipelineSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type ConversationMessage = typeof conversationMessages.$inferSelect;
+export type InsertConversationMessage = z.infer<typeof insertConversationMessageSchema>;
+
+// A playbook as seen by one user: 'owner' for its creator, otherwise the
+// user's role in the workspace it is shared to
+export type AccessiblePlaybook = Playbook & { accessRole: WorkspaceRole };